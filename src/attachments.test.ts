@@ -0,0 +1,166 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+
+import {
+  encodeMessageContent,
+  estimateAttachmentTokens,
+  loadAttachment,
+} from './attachments';
+import { completion } from './completion';
+import { MockCompletionApi } from './mock';
+
+// header of a png image, which is all that is read to get its dimensions
+const createPng = (width: number, height: number) => {
+  const png = Buffer.alloc(24);
+  Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex').copy(png);
+  png.writeUInt32BE(width, 16);
+  png.writeUInt32BE(height, 20);
+  return png;
+};
+
+const pdf = Buffer.from(
+  '%PDF-1.4\n1 0 obj << /Type /Pages /Count 2 >> endobj\n2 0 obj << /Type /Page >> endobj\n3 0 obj << /Type /Page >> endobj\n',
+  'latin1',
+);
+
+const invoiceSchema = z.object({ total: z.number() });
+
+describe('attachments', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zod-gpt-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('Should load buffers and file paths into data urls', async () => {
+    const path = join(dir, 'invoice.pdf');
+    await writeFile(path, pdf);
+
+    expect(await loadAttachment({ type: 'file', file: path })).toEqual({
+      type: 'file',
+      file: `data:application/pdf;base64,${pdf.toString('base64')}`,
+      mimeType: 'application/pdf',
+      name: 'invoice.pdf',
+    });
+    expect(
+      await loadAttachment({ type: 'image', image: createPng(1, 1) }),
+    ).toMatchObject({ image: expect.stringMatching(/^data:image\/png;/) });
+
+    const url = 'https://example.com/receipt.png';
+    expect(await loadAttachment({ type: 'image', image: url })).toEqual({
+      type: 'image',
+      image: url,
+    });
+  });
+
+  it('Should estimate the tokens of images and pdfs', () => {
+    expect(
+      estimateAttachmentTokens({ type: 'image', image: createPng(1024, 1024) }),
+    ).toBe(765);
+    expect(
+      estimateAttachmentTokens({ type: 'image', image: createPng(4096, 2048) }),
+    ).toBe(85 + 6 * 170);
+    expect(
+      estimateAttachmentTokens({
+        type: 'image',
+        image: createPng(4096, 2048),
+        detail: 'low',
+      }),
+    ).toBe(85);
+    expect(estimateAttachmentTokens({ type: 'file', file: pdf })).toBe(3000);
+  });
+
+  it('Should encode attachments as provider content parts', async () => {
+    const image = await loadAttachment({
+      type: 'image',
+      image: createPng(1, 1),
+    });
+    const message = {
+      role: 'user' as const,
+      content: 'What is the total?',
+      attachments: [image],
+    };
+
+    expect(encodeMessageContent(message, 'openai')).toMatchSnapshot();
+    expect(encodeMessageContent(message, 'anthropic')).toMatchSnapshot();
+  });
+});
+
+describe('multimodal completion', () => {
+  it('Should send images and text parts with the prompt', async () => {
+    const model = new MockCompletionApi(
+      [{ arguments: { total: 42 } }],
+      {},
+      { capabilities: { vision: true } },
+    );
+    const res = await completion(
+      model,
+      [
+        { type: 'text', text: 'Extract the total of this invoice.' },
+        { type: 'image', image: createPng(1024, 1024) },
+      ],
+      { schema: invoiceSchema },
+    );
+
+    expect(res.data).toEqual({ total: 42 });
+    const [message] = model.requests[0].messages;
+    expect(message.content).toBe('Extract the total of this invoice.');
+    expect(message).toMatchObject({
+      attachments: [
+        { type: 'image', image: expect.stringMatching(/^data:image\/png;/) },
+      ],
+    });
+    expect(res.usage?.promptTokens).toBe(
+      'Extract the total of this invoice.'.length + 765,
+    );
+  });
+
+  it('Should fall back to a model with vision when a model does not accept attachments', async () => {
+    const textModel = new MockCompletionApi([], { model: 'text' });
+    const visionModel = new MockCompletionApi(
+      [{ arguments: { total: 42 } }],
+      {},
+      { capabilities: { vision: true } },
+    );
+    const prompt = [
+      { type: 'image' as const, image: createPng(1, 1) },
+      { type: 'text' as const, text: 'Extract the total' },
+    ];
+
+    await expect(
+      completion(textModel, prompt, { schema: invoiceSchema }),
+    ).rejects.toThrow('text does not support images or files');
+    const res = await completion([textModel, visionModel], prompt, {
+      schema: invoiceSchema,
+    });
+    expect(res.model).toBe(visionModel);
+    expect(textModel.requests).toHaveLength(0);
+  });
+
+  it('Should only slice the text when images do not fit', async () => {
+    const model = new MockCompletionApi(
+      [{ arguments: { total: 42 } }],
+      { contextSize: 200 + 85 + 20 },
+      { capabilities: { vision: true } },
+    );
+    const res = await completion(
+      model,
+      [
+        { type: 'image', image: createPng(1024, 1024), detail: 'low' },
+        { type: 'text', text: 'x'.repeat(40) },
+      ],
+      { schema: invoiceSchema, autoSlice: true },
+    );
+
+    expect(res.slices?.[0].removedText).toBe('x'.repeat(20));
+    const [message] = model.requests[1].messages;
+    expect(message.content).toBe('x'.repeat(20));
+    expect(message).toMatchObject({ attachments: [{ detail: 'low' }] });
+  });
+});
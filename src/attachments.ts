@@ -0,0 +1,243 @@
+import { readFile } from 'fs/promises';
+import type { CompletionApi } from 'llm-api';
+import { basename, extname } from 'path';
+
+import {
+  DefaultImageTokens,
+  ImageBaseTokens,
+  ImageTileTokens,
+  PdfPageTokens,
+} from './config';
+import type { Attachment, ChatMessage, ContentPart } from './types';
+
+const MimeTypesByExtension: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+};
+
+const DataUrlPattern = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s;
+const RemoteUrlPattern = /^https?:\/\//;
+
+function detectMimeType(data: Buffer): string | undefined {
+  if (data.subarray(0, 4).toString('hex') === '89504e47') {
+    return 'image/png';
+  } else if (data.subarray(0, 2).toString('hex') === 'ffd8') {
+    return 'image/jpeg';
+  } else if (data.subarray(0, 4).toString('latin1') === 'GIF8') {
+    return 'image/gif';
+  } else if (data.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  } else if (data.subarray(0, 4).toString('latin1') === '%PDF') {
+    return 'application/pdf';
+  }
+  return undefined;
+}
+
+// split a data url in its mime type and base64 data, returns undefined for remote urls
+function parseDataUrl(
+  url: string,
+): { mimeType?: string; base64: string } | undefined {
+  const match = url.match(DataUrlPattern);
+  return match ? { mimeType: match[1], base64: match[2] } : undefined;
+}
+
+// read the attachment into a data url, so messages stay serializable and can be cached, recorded and persisted
+// remote urls are passed on as they are, for the provider to download
+export async function loadAttachment(
+  attachment: Attachment,
+): Promise<Attachment> {
+  const source =
+    attachment.type === 'image' ? attachment.image : attachment.file;
+  if (typeof source === 'string' && RemoteUrlPattern.test(source)) {
+    return attachment;
+  }
+
+  let data: Buffer;
+  let mimeType = attachment.mimeType;
+  let name = attachment.type === 'file' ? attachment.name : undefined;
+  if (Buffer.isBuffer(source)) {
+    data = source;
+  } else if (source.startsWith('data:')) {
+    const parsed = parseDataUrl(source);
+    if (!parsed) {
+      throw new Error('Attachment data url is not base64 encoded');
+    }
+    data = Buffer.from(parsed.base64, 'base64');
+    mimeType = mimeType ?? parsed.mimeType;
+  } else {
+    data = await readFile(source);
+    mimeType = mimeType ?? MimeTypesByExtension[extname(source).toLowerCase()];
+    name = name ?? basename(source);
+  }
+
+  mimeType = mimeType ?? detectMimeType(data) ?? 'application/octet-stream';
+  const url = `data:${mimeType};base64,${data.toString('base64')}`;
+  return attachment.type === 'image'
+    ? { ...attachment, image: url, mimeType }
+    : { ...attachment, file: url, mimeType, name };
+}
+
+export async function loadMessageAttachments(
+  messages: ChatMessage[],
+): Promise<ChatMessage[]> {
+  return Promise.all(
+    messages.map(async (message) =>
+      message.attachments?.length
+        ? {
+            ...message,
+            attachments: await Promise.all(
+              message.attachments.map(loadAttachment),
+            ),
+          }
+        : message,
+    ),
+  );
+}
+
+// turn a multimodal prompt into a user message, text parts are joined into the content so token counting and auto slicing keep working on the text
+export function toUserMessage(prompt: string | ContentPart[]): ChatMessage {
+  if (typeof prompt === 'string') {
+    return { role: 'user', content: prompt };
+  }
+
+  const attachments = prompt.filter(
+    (part): part is Attachment => part.type !== 'text',
+  );
+  return {
+    role: 'user',
+    content: prompt
+      .flatMap((part) => (part.type === 'text' ? [part.text] : []))
+      .join('\n\n'),
+    ...(attachments.length > 0 ? { attachments } : {}),
+  };
+}
+
+function getImageSize(
+  data: Buffer,
+): { width: number; height: number } | undefined {
+  const mimeType = detectMimeType(data);
+  if (mimeType === 'image/png' && data.length >= 24) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  } else if (mimeType === 'image/gif' && data.length >= 10) {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  } else if (mimeType === 'image/jpeg') {
+    // walk the segments until the start of frame segment, which holds the dimensions
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          height: data.readUInt16BE(offset + 5),
+          width: data.readUInt16BE(offset + 7),
+        };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+// estimate the tokens of an attachment, images are scaled and split in tiles the same way the openai api does
+export function estimateAttachmentTokens(attachment: Attachment): number {
+  const source =
+    attachment.type === 'image' ? attachment.image : attachment.file;
+  const base64 = !Buffer.isBuffer(source) && parseDataUrl(source)?.base64;
+  const data = Buffer.isBuffer(source)
+    ? source
+    : base64
+    ? Buffer.from(base64, 'base64')
+    : undefined;
+
+  if (attachment.type === 'file') {
+    // every page object of a pdf has a `/Type /Page` entry, the page tree has `/Type /Pages`
+    const pages =
+      data?.toString('latin1').match(/\/Type\s*\/Page(?![a-z])/gi)?.length ?? 1;
+    return Math.max(1, pages) * PdfPageTokens;
+  } else if (attachment.detail === 'low') {
+    return ImageBaseTokens;
+  }
+
+  const size = data && getImageSize(data);
+  if (!size) {
+    return DefaultImageTokens;
+  }
+  // fit the image in 2048x2048, then scale the shortest side down to 768
+  const fit = Math.min(1, 2048 / Math.max(size.width, size.height));
+  const scale =
+    fit * Math.min(1, 768 / (Math.min(size.width, size.height) * fit));
+  const tiles =
+    Math.ceil((size.width * scale) / 512) *
+    Math.ceil((size.height * scale) / 512);
+  return ImageBaseTokens + tiles * ImageTileTokens;
+}
+
+// estimate the prompt tokens of messages, text is counted with the tokenizer of the model and attachments are estimated
+export function getMessageTokens(
+  model: CompletionApi,
+  messages: ChatMessage[],
+): number {
+  return (
+    model.getTokensFromPrompt(messages.map((m) => m.content ?? '')) +
+    messages.reduce(
+      (total, m) =>
+        total +
+        (m.attachments ?? []).reduce(
+          (sum, attachment) => sum + estimateAttachmentTokens(attachment),
+          0,
+        ),
+      0,
+    )
+  );
+}
+
+// encode the content of a message as provider specific content parts, for custom models that send attachments
+// attachments are placed before the text, which is where providers recommend them to be
+export function encodeMessageContent(
+  message: ChatMessage,
+  provider: 'openai' | 'anthropic',
+): any[] {
+  const text = message.content ? [{ type: 'text', text: message.content }] : [];
+  const attachments = (message.attachments ?? []).map((attachment) => {
+    const source =
+      attachment.type === 'image' ? attachment.image : attachment.file;
+    if (Buffer.isBuffer(source)) {
+      throw new Error(
+        'Attachments have to be loaded with `loadAttachment` before they are encoded',
+      );
+    }
+    const parsed = parseDataUrl(source);
+
+    if (provider === 'openai') {
+      return attachment.type === 'image'
+        ? {
+            type: 'image_url',
+            image_url: { url: source, detail: attachment.detail },
+          }
+        : {
+            type: 'file',
+            file: { filename: attachment.name, file_data: source },
+          };
+    }
+    return {
+      type: attachment.type === 'image' ? 'image' : 'document',
+      source: parsed
+        ? {
+            type: 'base64',
+            media_type: attachment.mimeType ?? parsed.mimeType,
+            data: parsed.base64,
+          }
+        : { type: 'url', url: source },
+    };
+  });
+  return [...attachments, ...text];
+}
@@ -0,0 +1,136 @@
+import { appendFile, mkdtemp, readFile, rm } from 'fs/promises';
+import type { ChatRequestMessage } from 'llm-api';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+
+import { runBatch } from './batch';
+import { MockCompletionApi, MockResponse } from './mock';
+
+const schema = z.object({ sentiment: z.enum(['positive', 'negative']) });
+const reviews = ['This is great', 'This is awful', 'Not great at all'];
+const prompt = (review: string) => `Classify the review: ${review}`;
+
+// classify by the prompt, so responses don't depend on the order requests are sent in
+const classify = (messages: ChatRequestMessage[]): MockResponse => ({
+  arguments: {
+    sentiment: /: (This is great)$/.test(messages[0].content ?? '')
+      ? 'positive'
+      : 'negative',
+  },
+});
+
+describe('runBatch', () => {
+  let dir: string;
+  let checkpoint: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zod-gpt-'));
+    checkpoint = join(dir, 'checkpoint.jsonl');
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('Should return results in the order of the inputs, with typed failures', async () => {
+    const model = new MockCompletionApi([
+      classify,
+      classify,
+      { arguments: { sentiment: 'neutral' } },
+    ]);
+    const res = await runBatch(model, reviews, {
+      schema,
+      prompt,
+      concurrency: 2,
+      autoHeal: false,
+    });
+
+    expect(res.results.map((r) => r.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(res.results[0]).toMatchObject({
+      key: '0',
+      input: 'This is great',
+      data: { sentiment: 'positive' },
+    });
+    expect(res.results[2]).toMatchObject({
+      status: 'rejected',
+      error: {
+        name: 'SchemaValidationError',
+        issues: [expect.objectContaining({ path: ['sentiment'] })],
+      },
+    });
+    expect(res.fulfilled).toBe(2);
+    // the failed input is billed as well
+    expect(res.usageReport.requests).toHaveLength(3);
+  });
+
+  it('Should resume from the checkpoint and skip inputs that already have a result', async () => {
+    const first = new MockCompletionApi([classify, new Error('Crashed')]);
+    await runBatch(first, reviews.slice(0, 2), {
+      schema,
+      prompt,
+      key: (review) => review,
+      checkpoint,
+      concurrency: 1,
+    });
+    // a line that was cut off while writing is ignored
+    await appendFile(checkpoint, '{"key":"Not gr');
+
+    const second = new MockCompletionApi([classify, classify]);
+    const res = await runBatch(second, reviews, {
+      schema,
+      prompt,
+      key: (review) => review,
+      checkpoint,
+      retryFailed: true,
+    });
+
+    expect(second.requests).toHaveLength(2);
+    expect(res.results.map((r) => [r.status, !!r.resumed])).toEqual([
+      ['fulfilled', true],
+      ['fulfilled', false],
+      ['fulfilled', false],
+    ]);
+    expect((await readFile(checkpoint, 'utf8')).split('\n')).toHaveLength(6);
+  });
+
+  it('Should parse resumed results through the schema again', async () => {
+    const dateSchema = z.object({ date: z.coerce.date() });
+    await runBatch(
+      new MockCompletionApi([{ arguments: { date: '2024-01-01' } }]),
+      ['First'],
+      { schema: dateSchema, prompt, checkpoint },
+    );
+
+    const res = await runBatch(new MockCompletionApi([]), ['First'], {
+      schema: dateSchema,
+      prompt,
+      checkpoint,
+    });
+    expect(res.results[0]).toMatchObject({
+      status: 'fulfilled',
+      data: { date: new Date('2024-01-01') },
+      resumed: true,
+    });
+  });
+
+  it('Should wait for the requests per minute budget', async () => {
+    jest.useFakeTimers();
+    const model = new MockCompletionApi([classify, classify]);
+    const batch = runBatch(model, reviews.slice(0, 2), {
+      schema,
+      prompt,
+      requestsPerMinute: 1,
+    });
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(model.requests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect((await batch).fulfilled).toBe(2);
+  });
+});
@@ -0,0 +1,300 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { z } from 'zod';
+
+import { getMessageTokens, toUserMessage } from './attachments';
+import { completion } from './completion';
+import {
+  CompletionDefaultRetries,
+  CompletionDefaultTimeout,
+  RateLimitRetryIntervalMs,
+} from './config';
+import { CompletionError } from './errors';
+import { ModelChain, resolveModels } from './routing';
+import type { ChatMessage, ContentPart, RequestOptions } from './types';
+import { createUsageReport, RequestUsage, UsageReport } from './usage';
+import { debug, sleep } from './utils';
+
+export type BatchOptions<I, T extends z.ZodType> = Omit<
+  Partial<RequestOptions<T>>,
+  'schema'
+> & {
+  schema: T;
+
+  // build the prompt for an input, return content parts to attach images or files
+  prompt: (input: I, index: number) => string | ContentPart[];
+
+  // key of an input in the checkpoint, keys have to stay the same between runs for a run to resume
+  // default: the index of the input
+  key?: (input: I, index: number) => string;
+
+  // maximum number of inputs in flight at the same time
+  // default: 4
+  concurrency?: number;
+
+  // maximum number of requests to send per minute, including auto heal rounds
+  requestsPerMinute?: number;
+
+  // maximum number of tokens to spend per minute, prompts are estimated with the tokenizer of the model until their usage is known
+  tokensPerMinute?: number;
+
+  // path of a jsonl file to write every result to, inputs that already have a result in the file are skipped
+  checkpoint?: string;
+
+  // run inputs that failed in a previous run again, instead of skipping them
+  // default: false
+  retryFailed?: boolean;
+
+  // called with every result as soon as it is available, including results read from the checkpoint
+  onResult?: (result: BatchResult<I, T>) => void;
+};
+
+// serializable summary of the error that failed an input
+export type BatchError = {
+  name: string;
+  message: string;
+
+  // zod issues of the last response, if the output failed validation
+  issues: z.ZodIssue[];
+};
+
+// raw json that passed the schema is written to the checkpoint, it is parsed through the schema again when a run resumes
+export type BatchCheckpointEntry =
+  | { key: string; status: 'fulfilled'; json: unknown }
+  | { key: string; status: 'rejected'; error: BatchError };
+
+export type BatchResult<I, T extends z.ZodType> = (
+  | { key: string; status: 'fulfilled'; data: z.infer<T> }
+  | { key: string; status: 'rejected'; error: BatchError }
+) & {
+  index: number;
+  input: I;
+
+  // set if the result was read from the checkpoint of a previous run
+  resumed?: boolean;
+};
+
+export type BatchSummary<I, T extends z.ZodType> = {
+  // results in the same order as the inputs
+  results: BatchResult<I, T>[];
+
+  // number of inputs that produced valid data, including resumed results
+  fulfilled: number;
+
+  // number of inputs that failed, including resumed failures
+  rejected: number;
+
+  // usage of the requests sent in this run, including the requests of failed inputs
+  usageReport: UsageReport;
+};
+
+const Defaults = {
+  concurrency: 4,
+  retryFailed: false,
+};
+
+const RateWindowMs = 60_000;
+
+function toBatchError(error: unknown): BatchError {
+  return {
+    name: error instanceof Error ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error),
+    issues: error instanceof CompletionError ? error.issues : [],
+  };
+}
+
+async function readCheckpoint(
+  path: string,
+): Promise<Map<string, BatchCheckpointEntry>> {
+  const entries = new Map<string, BatchCheckpointEntry>();
+  try {
+    const file = await readFile(path, 'utf8');
+    for (const line of file.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      // the last line can be cut off if the previous run crashed while writing it
+      try {
+        const entry: BatchCheckpointEntry = JSON.parse(line);
+        entries.set(entry.key, entry);
+      } catch {
+        debug.log('⚠️ skipping invalid checkpoint line:', line);
+      }
+    }
+    // end the cut off line, so the next entry is written to a line of its own
+    if (file && !file.endsWith('\n')) {
+      await appendFile(path, '\n');
+    }
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') {
+      throw e;
+    }
+  }
+  return entries;
+}
+
+// sliding window of the requests and tokens spent in the last minute
+class RateBudget {
+  private requestsPerMinute: number;
+  private tokensPerMinute: number;
+  private spent: { time: number; requests: number; tokens: number }[] = [];
+
+  constructor(requestsPerMinute = Infinity, tokensPerMinute = Infinity) {
+    this.requestsPerMinute = requestsPerMinute;
+    this.tokensPerMinute = tokensPerMinute;
+  }
+
+  // wait until the budget allows another request, and reserve the estimated tokens for it
+  async acquire(estimatedTokens: number) {
+    for (;;) {
+      const now = Date.now();
+      this.spent = this.spent.filter((s) => now - s.time < RateWindowMs);
+      const requests = this.spent.reduce((sum, s) => sum + s.requests, 0);
+      const tokens = this.spent.reduce((sum, s) => sum + s.tokens, 0);
+
+      // a request that is larger than the whole budget is sent once the window is empty, or it would never be sent
+      if (
+        this.spent.length === 0 ||
+        (requests < this.requestsPerMinute &&
+          tokens + estimatedTokens <= this.tokensPerMinute)
+      ) {
+        const reservation = { time: now, requests: 1, tokens: estimatedTokens };
+        this.spent.push(reservation);
+        return reservation;
+      }
+      await sleep(this.spent[0].time + RateWindowMs - now);
+    }
+  }
+}
+
+// run a completion for every input, with a concurrency limit and rate budgets, checkpointing every result so a crashed run can resume
+export async function runBatch<I, T extends z.ZodType>(
+  model: ModelChain,
+  inputs: Iterable<I> | AsyncIterable<I>,
+  opt: BatchOptions<I, T>,
+): Promise<BatchSummary<I, T>> {
+  const {
+    prompt,
+    key = (_, index) => String(index),
+    concurrency = Defaults.concurrency,
+    requestsPerMinute,
+    tokensPerMinute,
+    checkpoint,
+    retryFailed = Defaults.retryFailed,
+    onResult,
+    ...requestOpt
+  } = opt;
+  const checkpointed = checkpoint
+    ? await readCheckpoint(checkpoint)
+    : new Map<string, BatchCheckpointEntry>();
+  checkpoint && (await mkdir(dirname(checkpoint), { recursive: true }));
+
+  const budget = new RateBudget(requestsPerMinute, tokensPerMinute);
+  const results: BatchResult<I, T>[] = [];
+  const usageRequests: RequestUsage[] = [];
+
+  const addResult = async (result: BatchResult<I, T>, json?: unknown) => {
+    results[result.index] = result;
+    if (checkpoint && !result.resumed) {
+      const entry: BatchCheckpointEntry =
+        result.status === 'fulfilled'
+          ? { key: result.key, status: result.status, json }
+          : { key: result.key, status: result.status, error: result.error };
+      await appendFile(checkpoint, JSON.stringify(entry) + '\n');
+    }
+    onResult?.(result);
+  };
+
+  const run = async (input: I, index: number) => {
+    const inputKey = key(input, index);
+    const previous = checkpointed.get(inputKey);
+    if (previous?.status === 'rejected' && !retryFailed) {
+      return addResult({ ...previous, index, input, resumed: true });
+    } else if (previous?.status === 'fulfilled') {
+      const parsed = await requestOpt.schema.safeParseAsync(previous.json);
+      if (parsed.success) {
+        return addResult({
+          key: inputKey,
+          status: 'fulfilled',
+          data: parsed.data,
+          index,
+          input,
+          resumed: true,
+        });
+      }
+      debug.log(
+        `⚠️ checkpoint of batch input ${inputKey} does not pass the schema, running it again`,
+      );
+    }
+
+    const message = prompt(input, index);
+    const messages: ChatMessage[] = [
+      ...(requestOpt.messageHistory ?? []),
+      toUserMessage(message),
+    ];
+    try {
+      const [firstModel] = await resolveModels(model, messages);
+      const reservation = await budget.acquire(
+        tokensPerMinute ? getMessageTokens(firstModel, messages) : 0,
+      );
+
+      const res = await completion(model, message, {
+        retries: CompletionDefaultRetries,
+        retryInterval: RateLimitRetryIntervalMs,
+        timeout: CompletionDefaultTimeout,
+        ...requestOpt,
+      });
+      // replace the estimate with the actual usage, which includes auto heal rounds
+      reservation.requests = Math.max(1, res.usageReport.requests.length);
+      reservation.tokens = res.usageReport.total.totalTokens;
+      usageRequests.push(...res.usageReport.requests);
+      await addResult(
+        {
+          key: inputKey,
+          status: 'fulfilled',
+          data: res.data,
+          index,
+          input,
+        },
+        res.json,
+      );
+    } catch (e) {
+      // failed inputs are billed for their requests as well
+      if (e instanceof CompletionError) {
+        usageRequests.push(...e.usageReport.requests);
+      }
+      debug.error(`⚠️ batch input ${inputKey} failed`, e);
+      await addResult({
+        key: inputKey,
+        status: 'rejected',
+        error: toBatchError(e),
+        index,
+        input,
+      });
+    }
+  };
+
+  // workers pull from the same iterator, so inputs are read lazily and large datasets are never loaded at once
+  const iterator =
+    Symbol.asyncIterator in inputs
+      ? inputs[Symbol.asyncIterator]()
+      : inputs[Symbol.iterator]();
+  let nextIndex = 0;
+  const worker = async () => {
+    for (;;) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      await run(next.value, nextIndex++);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+
+  return {
+    results,
+    fulfilled: results.filter((r) => r.status === 'fulfilled').length,
+    rejected: results.filter((r) => r.status === 'rejected').length,
+    usageReport: createUsageReport(usageRequests),
+  };
+}
@@ -0,0 +1,97 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+
+import { FileCacheStore, MemoryCacheStore } from './cache';
+import { completion } from './completion';
+import { MockCompletionApi } from './mock';
+
+const entry = {
+  messages: [{ role: 'user' as const, content: 'Hello' }],
+  response: { message: { role: 'assistant' as const, content: 'Hi' } },
+};
+
+describe('cache', () => {
+  it('Should serve identical requests from the cache', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'acme' } },
+      { arguments: { name: 'beta' } },
+    ]);
+    const cache = new MemoryCacheStore();
+    const schema = z.object({
+      name: z.string().transform((s) => s.toUpperCase()),
+    });
+
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      cache,
+    });
+    const cached = await completion(model, 'Generate a startup', {
+      schema,
+      cache,
+    });
+    const other = await completion(model, 'Generate a startup', {
+      schema,
+      cache,
+      systemMessage: 'You are a founder',
+    });
+
+    expect(res.cached).toBeUndefined();
+    expect(cached.cached).toBe(true);
+    expect(cached.data).toEqual({ name: 'ACME' });
+    expect(other.data).toEqual({ name: 'BETA' });
+    expect(model.requests).toHaveLength(2);
+  });
+
+  it('Should treat cached responses that fail validation as misses', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'acme' } },
+      { arguments: { name: 'beta' } },
+    ]);
+    const cache = new MemoryCacheStore();
+    const schema = z.object({ name: z.string() });
+
+    await completion(model, 'Generate a startup', { schema, cache });
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      cache,
+      validate: (data) =>
+        data.name === 'acme'
+          ? [{ path: ['name'], message: 'Name is taken' }]
+          : undefined,
+    });
+
+    expect(res.cached).toBeUndefined();
+    expect(res.data).toEqual({ name: 'beta' });
+    expect(model.requests).toHaveLength(2);
+  });
+
+  it('Should evict the least recently used and expired entries from memory', async () => {
+    const cache = new MemoryCacheStore({ maxSize: 2, ttl: 1000 });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+
+    cache.set('a', entry);
+    cache.set('b', entry);
+    cache.get('a');
+    cache.set('c', entry);
+    expect(cache.get('a')).toBe(entry);
+    expect(cache.get('b')).toBeUndefined();
+
+    now.mockReturnValue(1000);
+    expect(cache.get('a')).toBeUndefined();
+    now.mockRestore();
+  });
+
+  it('Should persist entries to the file system', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'zod-gpt-'));
+    try {
+      await new FileCacheStore({ directory }).set('a', entry);
+
+      expect(await new FileCacheStore({ directory }).get('a')).toEqual(entry);
+      expect(await new FileCacheStore({ directory }).get('b')).toBeUndefined();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import type {
+  ChatRequestMessage,
+  ChatResponse,
+  CompletionApi,
+  ModelRequestOptions,
+} from 'llm-api';
+import { omit } from 'lodash';
+import { join } from 'path';
+
+import { hashJson, MaybePromise } from './utils';
+
+export type CacheEntry = {
+  // messages of the request that produced the cached response, used to continue the conversation via `respond`
+  messages: ChatRequestMessage[];
+
+  // raw response from the model
+  response: Omit<ChatResponse, 'respond'>;
+
+  // raw json that passed the schema, it is parsed through the schema again when read from the cache
+  json?: any;
+};
+
+// implement this interface to plug in your own cache, e.g. redis
+export interface CacheStore {
+  get(key: string): MaybePromise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): MaybePromise<void>;
+}
+
+export function getCacheKey(
+  model: CompletionApi,
+  messages: ChatRequestMessage[],
+  opt: Pick<
+    ModelRequestOptions,
+    'systemMessage' | 'responsePrefix' | 'stop'
+  > & {
+    jsonSchema?: any;
+    functionName?: string;
+    functionDescription?: string;
+    strategy?: string;
+  },
+): string {
+  return hashJson({
+    // streaming doesn't change the response, so it should not change the cache key
+    modelConfig: omit(model.modelConfig, 'stream'),
+    messages,
+    jsonSchema: opt.jsonSchema,
+    systemMessage:
+      typeof opt.systemMessage === 'function'
+        ? opt.systemMessage()
+        : opt.systemMessage,
+    responsePrefix: opt.responsePrefix,
+    stop: opt.stop,
+    functionName: opt.functionName,
+    functionDescription: opt.functionDescription,
+    strategy: opt.strategy,
+  });
+}
+
+export type MemoryCacheStoreOptions = {
+  // maximum number of entries to keep, least recently used entries are evicted first
+  // default: 1000
+  maxSize?: number;
+
+  // time in ms before an entry expires, entries never expire if not set
+  ttl?: number;
+};
+
+export class MemoryCacheStore implements CacheStore {
+  maxSize: number;
+  ttl?: number;
+
+  // maps keep insertion order, so the first key is always the least recently used one
+  private entries = new Map<
+    string,
+    { entry: CacheEntry; expiresAt?: number }
+  >();
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? 1000;
+    this.ttl = options.ttl;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const cached = this.entries.get(key);
+    if (!cached) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (cached.expiresAt !== undefined && cached.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, cached);
+    return cached.entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      entry,
+      expiresAt: this.ttl !== undefined ? Date.now() + this.ttl : undefined,
+    });
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+export type FileCacheStoreOptions = {
+  // directory to write cache files to, one json file is written per entry
+  directory: string;
+
+  // time in ms before an entry expires, entries never expire if not set
+  ttl?: number;
+};
+
+export class FileCacheStore implements CacheStore {
+  directory: string;
+  ttl?: number;
+
+  constructor(options: FileCacheStoreOptions) {
+    this.directory = options.directory;
+    this.ttl = options.ttl;
+  }
+
+  private getPath(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    let cached: { entry: CacheEntry; expiresAt?: number };
+    try {
+      cached = JSON.parse(await readFile(this.getPath(key), 'utf8'));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') {
+        return undefined;
+      }
+      throw e;
+    }
+
+    if (cached.expiresAt !== undefined && cached.expiresAt <= Date.now()) {
+      await unlink(this.getPath(key)).catch(() => undefined);
+      return undefined;
+    }
+    return cached.entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      this.getPath(key),
+      JSON.stringify({
+        entry,
+        expiresAt: this.ttl !== undefined ? Date.now() + this.ttl : undefined,
+      }),
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { AnthropicChatApi, OpenAIChatApi } from 'llm-api';
+
+import { getCapabilities, registerCapabilities } from './capabilities';
+import { withCassette } from './cassette';
+import { MockCompletionApi } from './mock';
+
+describe('getCapabilities', () => {
+  it('Should return the registered capabilities of built in models', () => {
+    const anthropic = new AnthropicChatApi({ apiKey: 'test' });
+    const openai = new OpenAIChatApi({ apiKey: 'test' });
+
+    expect(getCapabilities(anthropic).functionCalling).toBe(false);
+    expect(getCapabilities(anthropic).responsePrefill).toBe(true);
+    expect(getCapabilities(openai).functionCalling).toBe(true);
+  });
+
+  it('Should inherit capabilities for subclasses and wrapped models', () => {
+    class CustomAnthropicChatApi extends AnthropicChatApi {}
+    const model = new CustomAnthropicChatApi({ apiKey: 'test' });
+    const wrapped = withCassette(model, { path: 'unused.jsonl' });
+
+    expect(getCapabilities(model).functionCalling).toBe(false);
+    expect(getCapabilities(wrapped).functionCalling).toBe(false);
+  });
+
+  it('Should let models declare capabilities and calls override them', () => {
+    class ToolsChatApi extends MockCompletionApi {}
+    registerCapabilities(ToolsChatApi, { vision: true });
+    const model = new ToolsChatApi(
+      [],
+      {},
+      { capabilities: { jsonMode: true } },
+    );
+
+    expect(getCapabilities(model)).toEqual({
+      functionCalling: true,
+      jsonMode: true,
+      strictSchema: false,
+      responsePrefill: true,
+      stopSequences: true,
+      vision: true,
+    });
+    expect(
+      getCapabilities(model, { functionCalling: false }).functionCalling,
+    ).toBe(false);
+  });
+});
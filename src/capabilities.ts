@@ -0,0 +1,98 @@
+import {
+  AnthropicBedrockChatApi,
+  AnthropicChatApi,
+  CompletionApi,
+  GroqChatApi,
+  OpenAIChatApi,
+} from 'llm-api';
+
+// features of a model that decide how structured outputs are requested
+export type ModelCapabilities = {
+  // the model can be forced to call a function via the `functions` and `callFunction` options
+  functionCalling: boolean;
+
+  // the model can be constrained to only output valid json
+  jsonMode: boolean;
+
+  // the model can be constrained to output json that follows a strict json schema
+  strictSchema: boolean;
+
+  // the start of the response can be set via the `responsePrefix` option
+  responsePrefill: boolean;
+
+  // generation can be stopped on custom sequences via the `stop` option
+  stopSequences: boolean;
+
+  // the model accepts images and files as input, sent as the `attachments` of messages
+  vision: boolean;
+};
+
+// models can declare their own capabilities by setting a `capabilities` property
+export type CompletionApiWithCapabilities = CompletionApi & {
+  capabilities?: Partial<ModelCapabilities>;
+};
+
+// models that are not registered are assumed to support function calling
+const DefaultCapabilities: ModelCapabilities = {
+  functionCalling: true,
+  jsonMode: false,
+  strictSchema: false,
+  responsePrefill: false,
+  stopSequences: true,
+  vision: false,
+};
+
+type ModelClass = abstract new (...args: any[]) => CompletionApi;
+
+const registry = new Map<ModelClass, Partial<ModelCapabilities>>();
+
+// register the capabilities of every instance of a model class, including subclasses
+export function registerCapabilities(
+  modelClass: ModelClass,
+  capabilities: Partial<ModelCapabilities>,
+) {
+  registry.set(modelClass, { ...registry.get(modelClass), ...capabilities });
+}
+
+// capabilities are merged in order of: defaults, registered class, the model's own `capabilities` property, then per call overrides
+export function getCapabilities(
+  model: CompletionApi,
+  overrides?: Partial<ModelCapabilities>,
+): ModelCapabilities {
+  // walk up the prototype chain so subclasses and wrapped models inherit the capabilities of their class
+  const inherited: Partial<ModelCapabilities>[] = [];
+  for (
+    let proto = Object.getPrototypeOf(model);
+    proto;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    const registered = registry.get(proto.constructor);
+    registered && inherited.unshift(registered);
+  }
+
+  return Object.assign(
+    {},
+    DefaultCapabilities,
+    ...inherited,
+    (model as CompletionApiWithCapabilities).capabilities,
+    overrides,
+  );
+}
+
+// capabilities of the models that ship with llm-api, which only sends text messages
+registerCapabilities(OpenAIChatApi, {
+  functionCalling: true,
+  responsePrefill: false,
+});
+registerCapabilities(AnthropicChatApi, {
+  functionCalling: false,
+  responsePrefill: true,
+});
+registerCapabilities(AnthropicBedrockChatApi, {
+  functionCalling: false,
+  responsePrefill: true,
+});
+registerCapabilities(GroqChatApi, {
+  functionCalling: false,
+  responsePrefill: true,
+});
@@ -0,0 +1,71 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+
+import { withCassette } from './cassette';
+import { completion } from './completion';
+import { CassetteMissError } from './errors';
+import { MockCompletionApi } from './mock';
+
+const schema = z.object({ name: z.string(), employees: z.number() });
+
+describe('withCassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zod-gpt-'));
+    path = join(dir, 'cassette.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('Should record auto heal rounds and replay them without calling the model', async () => {
+    const recorder = new MockCompletionApi([
+      { arguments: { name: 'Acme' } },
+      { arguments: { name: 'Acme', employees: 3 } },
+    ]);
+    const recorded = await completion(
+      withCassette(recorder, { path, mode: 'record' }),
+      'Generate a startup',
+      { schema },
+    );
+    expect(recorded.data).toEqual({ name: 'Acme', employees: 3 });
+    expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(2);
+
+    const player = new MockCompletionApi();
+    const replayed = await completion(
+      withCassette(player, { path, mode: 'replay' }),
+      'Generate a startup',
+      { schema },
+    );
+    expect(replayed.data).toEqual(recorded.data);
+    expect(player.requests).toHaveLength(0);
+  });
+
+  it('Should throw on unrecorded requests in replay mode', async () => {
+    const model = withCassette(new MockCompletionApi(), {
+      path,
+      mode: 'replay',
+    });
+
+    await expect(completion(model, 'Hello')).rejects.toBeInstanceOf(
+      CassetteMissError,
+    );
+  });
+
+  it('Should only call the model for new requests in auto mode', async () => {
+    const model = new MockCompletionApi(['Hello', 'Bye']);
+    const cassette = withCassette(model, { path });
+
+    await completion(cassette, 'Hello');
+    const res = await completion(cassette, 'Bye');
+    const replayed = await completion(withCassette(model, { path }), 'Bye');
+
+    expect(replayed.data).toBe(res.data);
+    expect(model.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,206 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import type {
+  ChatRequestMessage,
+  ChatResponse,
+  CompletionApi,
+  ModelRequestOptions,
+} from 'llm-api';
+import { pick } from 'lodash';
+import { dirname } from 'path';
+
+import { CassetteMissError } from './errors';
+import { debug, hashJson } from './utils';
+
+// record: always call the model and record the response
+// replay: only return recorded responses, throw on unrecorded requests
+// auto: replay recorded responses, and record any request that was not recorded yet
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export type CassetteOptions = {
+  // path of the jsonl file to record to and replay from
+  path: string;
+
+  // default: 'auto'
+  mode?: CassetteMode;
+};
+
+export type CassetteEntry = {
+  key: string;
+  request: {
+    messages: ChatRequestMessage[];
+    options: ModelRequestOptions;
+  };
+  response: Omit<ChatResponse, 'respond'>;
+};
+
+// only the options that change what the model responds with are part of the request key
+const RecordedOptionKeys = [
+  'systemMessage',
+  'responsePrefix',
+  'stop',
+  'functions',
+  'callFunction',
+  'responseFormat',
+] as const;
+
+export function getRequestKey(
+  model: CompletionApi,
+  messages: ChatRequestMessage[],
+  options: ModelRequestOptions,
+): string {
+  return hashJson({
+    modelConfig: pick(model.modelConfig, 'model', 'temperature', 'topP'),
+    messages,
+    options,
+  });
+}
+
+export class Cassette {
+  path: string;
+  mode: CassetteMode;
+
+  private entries: Map<string, CassetteEntry[]> | undefined;
+  // number of times each key has been replayed, so repeated requests replay in the order they were recorded
+  private replayed = new Map<string, number>();
+
+  constructor(options: CassetteOptions) {
+    this.path = options.path;
+    this.mode = options.mode ?? 'auto';
+  }
+
+  private async load(): Promise<Map<string, CassetteEntry[]>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    const entries = new Map<string, CassetteEntry[]>();
+    try {
+      const file = await readFile(this.path, 'utf8');
+      for (const line of file.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        const entry: CassetteEntry = JSON.parse(line);
+        entries.set(entry.key, [...(entries.get(entry.key) ?? []), entry]);
+      }
+    } catch (e: any) {
+      if (e?.code !== 'ENOENT') {
+        throw e;
+      }
+    }
+
+    this.entries = entries;
+    return entries;
+  }
+
+  async find(key: string): Promise<CassetteEntry | undefined> {
+    const entries = (await this.load()).get(key);
+    if (!entries?.length) {
+      return undefined;
+    }
+
+    // once all recordings are used up, keep replaying the last one
+    const count = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, count + 1);
+    return entries[Math.min(count, entries.length - 1)];
+  }
+
+  async record(entry: CassetteEntry): Promise<void> {
+    const entries = await this.load();
+    entries.set(entry.key, [...(entries.get(entry.key) ?? []), entry]);
+
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(entry) + '\n');
+  }
+}
+
+// wrap a model so every chat completion request is recorded to, or replayed from, a cassette file
+// the returned model inherits from the original model, so it is still detected as the same provider
+export function withCassette<M extends CompletionApi>(
+  model: M,
+  cassetteOrOptions: Cassette | CassetteOptions,
+): M {
+  const cassette =
+    cassetteOrOptions instanceof Cassette
+      ? cassetteOrOptions
+      : new Cassette(cassetteOrOptions);
+  const wrapped: M = Object.create(model);
+
+  const toChatResponse = (
+    messages: ChatRequestMessage[],
+    options: ModelRequestOptions,
+    recorded: CassetteEntry['response'],
+  ): ChatResponse => ({
+    ...recorded,
+    respond: (message, opt) =>
+      wrapped.chatCompletion(
+        [
+          ...messages,
+          recorded.message,
+          typeof message === 'string'
+            ? recorded.toolCallId
+              ? {
+                  role: 'tool',
+                  toolCallId: recorded.toolCallId,
+                  content: message,
+                }
+              : { role: 'user', content: message }
+            : message,
+        ],
+        opt ?? options,
+      ),
+  });
+
+  wrapped.chatCompletion = async (
+    messages: ChatRequestMessage[],
+    opt: ModelRequestOptions = {},
+  ) => {
+    const options = pick(
+      {
+        ...opt,
+        systemMessage:
+          typeof opt.systemMessage === 'function'
+            ? opt.systemMessage()
+            : opt.systemMessage,
+      },
+      RecordedOptionKeys,
+    );
+    const key = getRequestKey(model, messages, options);
+
+    if (cassette.mode !== 'record') {
+      const entry = await cassette.find(key);
+      if (entry) {
+        debug.log('📼 replaying recorded response:', key);
+        entry.response.content &&
+          opt.events?.emit('data', entry.response.content);
+        return toChatResponse(messages, opt, entry.response);
+      } else if (cassette.mode === 'replay') {
+        throw new CassetteMissError(
+          `No recorded response found in ${cassette.path}`,
+          key,
+          messages,
+        );
+      }
+    }
+
+    const response = await model.chatCompletion(messages, opt);
+    const recorded = pick(response, [
+      'message',
+      'content',
+      'toolCallId',
+      'name',
+      'arguments',
+      'usage',
+    ]);
+    await cassette.record({
+      key,
+      request: { messages, options },
+      response: recorded,
+    });
+    return toChatResponse(messages, opt, recorded);
+  };
+  wrapped.textCompletion = (prompt: string, opt?: ModelRequestOptions) =>
+    wrapped.chatCompletion([{ role: 'user', content: prompt }], opt);
+
+  return wrapped;
+}
@@ -0,0 +1,689 @@
+import { ChatRequestMessage } from 'llm-api';
+import { last } from 'lodash';
+import { z } from 'zod';
+
+import { chat, completion } from './completion';
+import {
+  AutoHealError,
+  AutoSliceError,
+  FunctionNotCalledError,
+  JsonParseError,
+  SchemaValidationError,
+} from './errors';
+import { MockCompletionApi, MockResponse } from './mock';
+import type { ModelRequestOptionsWithFormat } from './types';
+
+// mock of a model without function calling, like the anthropic models
+const createJsonPromptModel = (responses: MockResponse[]) =>
+  new MockCompletionApi(
+    responses,
+    {},
+    {
+      capabilities: { functionCalling: false },
+    },
+  );
+
+const schema = z.object({
+  name: z.string().describe('The name of the startup'),
+  employees: z.number().describe('Number of employees'),
+});
+
+describe('completion', () => {
+  it('Should return string data when no schema is set', async () => {
+    const model = new MockCompletionApi(['Hello there']);
+    const res = await completion(model, 'Hello');
+
+    expect(res.data).toBe('Hello there');
+    expect(model.requests[0].messages).toEqual([
+      { role: 'user', content: 'Hello' },
+    ]);
+  });
+
+  it('Should parse function call arguments with the schema', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'Acme', employees: 3 } },
+    ]);
+    const res = await completion(model, 'Generate a startup', { schema });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+    expect(model.requests[0].opt.callFunction).toBe('print');
+    expect(model.requests[0].opt.functions?.[0].parameters).toMatchSnapshot();
+  });
+
+  it('Should wrap and unwrap non object schemas', async () => {
+    const model = new MockCompletionApi([{ arguments: { data: ['a', 'b'] } }]);
+    const res = await completion(model, 'Generate names', {
+      schema: z.array(z.string()),
+    });
+
+    expect(res.data).toEqual(['a', 'b']);
+  });
+});
+
+describe('auto heal', () => {
+  it('Should heal invalid function arguments', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'Acme', employees: 'three' } },
+      { arguments: { name: 'Acme', employees: 3 } },
+    ]);
+    const res = await completion(model, 'Generate a startup', { schema });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+    expect(model.requests).toHaveLength(2);
+    expect(model.requests[1].messages[2]).toEqual({
+      role: 'tool',
+      toolCallId: 'call_1',
+      content:
+        'There is an issue with that response, please rewrite by calling the print function with the correct parameters.\nThe issue is at path employees: Expected number, received string.',
+    });
+  });
+
+  it('Should ask the model to call the function if it responded with text', async () => {
+    const model = new MockCompletionApi([
+      'Sure, here is a startup idea',
+      { arguments: { name: 'Acme', employees: 3 } },
+    ]);
+    const res = await completion(model, 'Generate a startup', { schema });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+    expect(model.requests[1].messages[2]).toEqual({
+      role: 'user',
+      content: 'Please respond with a call to the print function',
+    });
+  });
+
+  it('Should heal for multiple rounds and report every attempt', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'Acme' } },
+      { arguments: { name: 'Acme', employees: 'three' } },
+      { arguments: { name: 'Acme', employees: 3 } },
+    ]);
+    const onAttempt = jest.fn();
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      autoHeal: { maxAttempts: 2, onAttempt },
+    });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+    expect(onAttempt).toHaveBeenCalledTimes(2);
+    expect(onAttempt.mock.calls[1][1]).toBe(2);
+  });
+
+  it('Should throw an AutoHealError when attempts run out', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'Acme' } },
+      { arguments: { name: 'Acme', employees: 'three' } },
+    ]);
+    const error = await completion(model, 'Generate a startup', {
+      schema,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AutoHealError);
+    expect(error.attempts).toHaveLength(2);
+    expect(error.attempts.map((a: any) => a.json)).toEqual([
+      { name: 'Acme' },
+      { name: 'Acme', employees: 'three' },
+    ]);
+    expect(error.issues[0].path).toEqual(['employees']);
+  });
+
+  it('Should throw typed errors when auto heal is disabled', async () => {
+    await expect(
+      completion(new MockCompletionApi([{ arguments: { name: 'Acme' } }]), '', {
+        schema,
+        autoHeal: false,
+      }),
+    ).rejects.toBeInstanceOf(SchemaValidationError);
+
+    await expect(
+      completion(new MockCompletionApi(['Acme']), '', {
+        schema,
+        autoHeal: false,
+      }),
+    ).rejects.toBeInstanceOf(FunctionNotCalledError);
+
+    await expect(
+      completion(createJsonPromptModel(['not json']), '', {
+        schema,
+        autoHeal: false,
+      }),
+    ).rejects.toBeInstanceOf(JsonParseError);
+  });
+});
+
+describe('auto slice', () => {
+  it('Should slice the last message until it fits', async () => {
+    const model = new MockCompletionApi(['ok'], { contextSize: 210 });
+    const res = await completion(model, 'x'.repeat(20), { autoSlice: true });
+
+    expect(res.data).toBe('ok');
+    expect(model.requests).toHaveLength(2);
+    expect(model.requests[1].messages[0].content).toBe('x'.repeat(10));
+  });
+
+  it('Should throw an AutoSliceError when the prompt can not be sliced to fit', async () => {
+    const model = new MockCompletionApi(['ok'], { contextSize: 210 });
+    const error = await completion(model, 'x'.repeat(5), {
+      autoSlice: true,
+      messageHistory: [{ role: 'user', content: 'y'.repeat(50) }],
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AutoSliceError);
+    expect(error.overflowTokens).toBe(45);
+  });
+
+  it('Should keep the end of the message with the start strategy', async () => {
+    const model = new MockCompletionApi(['ok'], { contextSize: 210 });
+    const res = await completion(model, 'abcdefghij0123456789', {
+      autoSlice: 'start',
+    });
+
+    expect(model.requests[1].messages[0].content).toBe('0123456789');
+    expect(res.slices).toEqual([
+      {
+        strategy: 'start',
+        overflowTokens: 10,
+        removedMessages: [],
+        removedText: 'abcdefghij',
+      },
+    ]);
+  });
+
+  it('Should keep the start and end of the message with the middle strategy', async () => {
+    const model = new MockCompletionApi(['ok'], { contextSize: 230 });
+    const res = await completion(model, 'a'.repeat(20) + 'b'.repeat(20), {
+      autoSlice: 'middle',
+    });
+
+    expect(model.requests[1].messages[0].content).toBe(
+      'a'.repeat(10) + '\n\n[...]\n\n' + 'b'.repeat(11),
+    );
+    expect(res.slices?.[0].removedText).toBe('a'.repeat(10) + 'b'.repeat(9));
+  });
+
+  it('Should drop the oldest messages first with the history strategy', async () => {
+    const model = new MockCompletionApi(['ok'], { contextSize: 224 });
+    const history: ChatRequestMessage[] = [
+      { role: 'user', content: 'y'.repeat(10) },
+      { role: 'assistant', content: 'z'.repeat(10) },
+      { role: 'user', content: 'w'.repeat(2) },
+      { role: 'assistant', content: 'v'.repeat(2) },
+    ];
+    const res = await completion(model, 'x'.repeat(5), {
+      autoSlice: 'history',
+      messageHistory: history,
+    });
+
+    // the assistant message is dropped as well, so the history starts with a user message
+    expect(model.requests[1].messages).toEqual([
+      history[2],
+      history[3],
+      { role: 'user', content: 'x'.repeat(5) },
+    ]);
+    expect(res.slices?.[0].removedMessages).toEqual(history.slice(0, 2));
+  });
+
+  it('Should replace the history with a summary with the summarize strategy', async () => {
+    const model = new MockCompletionApi(['A short summary', 'ok'], {
+      contextSize: 600,
+    });
+    const res = await completion(model, 'What is next?', {
+      autoSlice: 'summarize',
+      messageHistory: [
+        { role: 'user', content: 'y'.repeat(300) },
+        { role: 'assistant', content: 'z'.repeat(300) },
+      ],
+    });
+
+    expect(res.data).toBe('ok');
+    expect(last(model.requests)?.messages).toEqual([
+      {
+        role: 'user',
+        content:
+          '<conversation_summary>\nA short summary\n</conversation_summary>\n\nWhat is next?',
+      },
+    ]);
+    expect(res.slices?.[0].summary).toBe('A short summary');
+    expect(res.slices?.[0].removedMessages).toHaveLength(2);
+  });
+
+  it('Should keep the role of the sliced message', async () => {
+    const model = new MockCompletionApi(['ok'], { contextSize: 210 });
+    await chat(
+      model,
+      [{ role: 'tool', toolCallId: 'call_1', content: 'x'.repeat(20) }],
+      { autoSlice: true },
+    );
+
+    expect(model.requests[1].messages[0]).toEqual({
+      role: 'tool',
+      toolCallId: 'call_1',
+      content: 'x'.repeat(10),
+    });
+  });
+});
+
+describe('respond', () => {
+  it('Should continue the conversation as a tool message after a function call', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'Acme', employees: 3 } },
+      { arguments: { name: 'Beta', employees: 5 } },
+    ]);
+    const res = await completion(model, 'Generate a startup', { schema });
+    const res2 = await res.respond('Generate another one');
+
+    expect(res2.data).toEqual({ name: 'Beta', employees: 5 });
+    expect(model.requests[1].messages.slice(1)).toEqual([
+      res.message,
+      { role: 'tool', toolCallId: 'call_1', content: 'Generate another one' },
+    ]);
+  });
+
+  it('Should continue the conversation as a user message after text', async () => {
+    const model = new MockCompletionApi(['Hello', 'Why']);
+    const res = await chat(model, [{ role: 'user', content: 'Hi' }]);
+    const res2 = await res.respond('Why');
+
+    expect(res2.data).toBe('Why');
+    expect(model.requests[1].messages).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: 'Why' },
+    ]);
+  });
+});
+
+describe('json prompt', () => {
+  it('Should inject the schema in the system message and steer the response', async () => {
+    const model = createJsonPromptModel([' "Acme", "employees": 3 }\n']);
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      systemMessage: 'You are a startup founder',
+    });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+
+    const { opt } = model.requests[0];
+    expect(opt.systemMessage).toMatchSnapshot();
+    expect(opt.responsePrefix).toBe('```json\n{ "name":');
+    expect(opt.stop).toBe('```');
+  });
+
+  it('Should heal invalid json with the schema instructions', async () => {
+    const model = createJsonPromptModel([
+      ' "Acme" }\n',
+      ' "Acme", "employees": 3 }\n',
+    ]);
+    const res = await completion(model, 'Generate a startup', { schema });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+    expect(model.requests[1].messages[2].role).toBe('user');
+    expect(model.requests[1].messages[2].content).toMatchSnapshot();
+  });
+
+  it('Should use the json prompt when function calling is turned off for the request', async () => {
+    const model = new MockCompletionApi([' "Acme", "employees": 3 }\n']);
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      capabilities: { functionCalling: false },
+    });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+    expect(model.requests[0].opt.responsePrefix).toBe('```json\n{ "name":');
+  });
+
+  it('Should not prefill the response for models without response prefill', async () => {
+    const model = new MockCompletionApi(
+      ['```json\n{ "name": "Acme", "employees": 3 }\n```'],
+      {},
+      { capabilities: { functionCalling: false, responsePrefill: false } },
+    );
+    const res = await completion(model, 'Generate a startup', { schema });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+    expect(model.requests[0].opt.responsePrefix).toBeUndefined();
+    expect(model.requests[0].opt.stop).toBeUndefined();
+  });
+});
+
+describe('strategy', () => {
+  it('Should constrain the model to json with the json_mode strategy', async () => {
+    const model = new MockCompletionApi(['{ "name": "Acme", "employees": 3 }']);
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      strategy: 'json_mode',
+    });
+
+    expect(res.data).toEqual({ name: 'Acme', employees: 3 });
+
+    const opt: ModelRequestOptionsWithFormat = model.requests[0].opt;
+    expect(opt.responseFormat).toEqual({ type: 'json_object' });
+    expect(opt.systemMessage).toContain('<json_schema>');
+    expect(opt.functions).toBeUndefined();
+    expect(opt.responsePrefix).toBeUndefined();
+  });
+
+  it('Should send a strict schema and map nulls back to optional properties', async () => {
+    const model = new MockCompletionApi(
+      [
+        JSON.stringify({
+          name: 'Acme',
+          website: null,
+          founders: [{ name: 'Jane', role: null }],
+        }),
+      ],
+      {},
+      { capabilities: { strictSchema: true } },
+    );
+    const res = await completion(model, 'Generate a startup', {
+      schema: z.object({
+        name: z.string(),
+        website: z.string().optional(),
+        founders: z.array(
+          z.object({
+            name: z.string(),
+            role: z.enum(['ceo', 'cto']).default('ceo'),
+          }),
+        ),
+      }),
+    });
+
+    expect(res.data).toEqual({
+      name: 'Acme',
+      founders: [{ name: 'Jane', role: 'ceo' }],
+    });
+
+    const opt: ModelRequestOptionsWithFormat = model.requests[0].opt;
+    expect(opt.functions).toBeUndefined();
+    expect(opt.responseFormat).toMatchSnapshot();
+  });
+});
+
+describe('usage', () => {
+  const pricing = { 'test-model': { promptTokens: 1, completionTokens: 2 } };
+
+  it('Should report the usage and cost of auto heal rounds', async () => {
+    const model = new MockCompletionApi(
+      [
+        { arguments: { name: 'Acme' } },
+        { arguments: { name: 'Acme', employees: 3 } },
+      ],
+      { model: 'test-model' },
+      { tokenizer: () => 10 },
+    );
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      pricing,
+    });
+
+    expect(res.usage).toEqual({
+      promptTokens: 30,
+      completionTokens: 10,
+      totalTokens: 40,
+    });
+    expect(res.usageReport.requests.map((r) => r.kind)).toEqual([
+      'request',
+      'heal',
+    ]);
+    expect(res.usageReport.total).toEqual({
+      promptTokens: 40,
+      completionTokens: 20,
+      totalTokens: 60,
+    });
+    expect(res.usageReport.cost).toBeCloseTo(80 / 1_000_000);
+  });
+
+  it('Should report the usage of failed auto heal rounds on the error', async () => {
+    const model = new MockCompletionApi(
+      [{ arguments: { name: 'Acme' } }, { arguments: { name: 'Acme' } }],
+      { model: 'test-model' },
+      { tokenizer: () => 10 },
+    );
+    const error = await completion(model, 'Generate a startup', {
+      schema,
+      pricing,
+      autoHeal: { maxAttempts: 1 },
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AutoHealError);
+    expect(error.usageReport.requests.map((r: any) => r.kind)).toEqual([
+      'request',
+      'heal',
+    ]);
+    expect(error.usageReport.total.totalTokens).toBe(60);
+    expect(error.usageReport.cost).toBeCloseTo(80 / 1_000_000);
+  });
+
+  it('Should keep adding up usage across respond rounds', async () => {
+    const model = new MockCompletionApi(
+      ['Hello', 'Why', 'Because'],
+      {},
+      {
+        tokenizer: () => 1,
+      },
+    );
+    const res = await completion(model, 'Hi');
+    const res2 = await res.respond('Why');
+    const res3 = await res2.respond('Because');
+
+    expect(res.usageReport.requests).toHaveLength(1);
+    expect(res2.usageReport.requests).toHaveLength(2);
+    expect(res3.usageReport.requests).toHaveLength(3);
+    expect(res3.usageReport.total.totalTokens).toBe(2 + 4 + 6);
+    expect(res3.usageReport.cost).toBeUndefined();
+  });
+});
+
+describe('hooks', () => {
+  it('Should call the lifecycle hooks for every request and heal attempt', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'Acme' } },
+      { arguments: { name: 'Acme', employees: 3 } },
+    ]);
+    const onRequest = jest.fn();
+    const onResponse = jest.fn();
+    const onHealAttempt = jest.fn();
+    await completion(model, 'Generate a startup', {
+      schema,
+      onRequest,
+      onResponse,
+      onHealAttempt,
+    });
+
+    expect(onRequest.mock.calls.map(([e]) => e.kind)).toEqual([
+      'request',
+      'heal',
+    ]);
+    expect(onResponse).toHaveBeenCalledTimes(2);
+    expect(onResponse.mock.calls[1][0]).toEqual(
+      expect.objectContaining({
+        kind: 'heal',
+        latency: expect.any(Number),
+        response: expect.objectContaining({
+          arguments: { name: 'Acme', employees: 3 },
+        }),
+      }),
+    );
+    expect(onHealAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ json: { name: 'Acme' } }),
+      1,
+    );
+  });
+
+  it('Should call onSlice when slicing, and onError once when the call fails', async () => {
+    const model = new MockCompletionApi(['ok'], { contextSize: 205 });
+    const onSlice = jest.fn();
+    const onError = jest.fn();
+    const error = await completion(model, 'x'.repeat(8), {
+      autoSlice: 'history',
+      messageHistory: [{ role: 'user', content: 'y'.repeat(50) }],
+      onSlice,
+      onError,
+    }).catch((e) => e);
+
+    expect(onSlice).toHaveBeenCalledWith(
+      expect.objectContaining({ strategy: 'history' }),
+    );
+    expect(error).toBeInstanceOf(AutoSliceError);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+});
+
+describe('validate', () => {
+  it('Should heal data that fails the custom validation', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'Acme', employees: 3 } },
+      { arguments: { name: 'Beta', employees: 3 } },
+    ]);
+    const validate = jest.fn(async (data: z.infer<typeof schema>) =>
+      data.name === 'Acme'
+        ? [{ path: ['name'], message: 'Acme is already taken' }]
+        : [],
+    );
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      validate,
+    });
+
+    expect(res.data).toEqual({ name: 'Beta', employees: 3 });
+    expect(validate).toHaveBeenCalledTimes(2);
+    expect(last(model.requests[1].messages)?.content).toMatchSnapshot();
+  });
+
+  it('Should support async refinements in the schema', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { data: ['Acme'] } },
+      { arguments: { data: ['Beta'] } },
+    ]);
+    const res = await completion(model, 'Generate startup names', {
+      schema: z
+        .array(z.string())
+        .refine(async (names) => !names.includes('Acme'), 'Acme is taken'),
+    });
+
+    expect(res.data).toEqual(['Beta']);
+    expect(model.requests).toHaveLength(2);
+  });
+
+  it('Should throw a SchemaValidationError with the validation issues when auto heal is disabled', async () => {
+    const model = new MockCompletionApi([{ arguments: { data: ['Acme'] } }]);
+    const error = await completion(model, 'Generate startup names', {
+      schema: z.array(z.string()),
+      validate: () => ['Acme is taken'],
+      autoHeal: false,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.issues).toEqual([
+      { code: 'custom', path: ['data'], message: 'Acme is taken' },
+    ]);
+  });
+});
+
+type Category = { name: string; children: Category[] };
+const category: z.ZodType<Category> = z.lazy(() =>
+  z.object({
+    name: z.string().describe('Name of the category'),
+    children: z.array(category),
+  }),
+);
+const taxonomySchema = z
+  .object({ root: category })
+  .describe('Taxonomy of the products');
+
+describe('schema format', () => {
+  it('Should render recursive schemas as typescript types', async () => {
+    const model = createJsonPromptModel([
+      ' { "name": "Food", "children": [{ "name": "Fruit", "children": [] }] } }',
+    ]);
+    const res = await completion(model, 'Categorize the products', {
+      schema: taxonomySchema,
+      definitions: { Category: category },
+      schemaFormat: 'typescript',
+    });
+
+    expect(res.data.root.children[0].name).toBe('Fruit');
+    expect(model.requests[0].opt.systemMessage).toMatchSnapshot();
+  });
+
+  it('Should render an indented json schema with the root description', async () => {
+    const model = createJsonPromptModel([' "Acme", "employees": 3 }']);
+    await completion(model, 'Generate a startup', {
+      schema: schema.describe('A startup'),
+      schemaFormat: 'annotated_json_schema',
+    });
+
+    expect(model.requests[0].opt.systemMessage).toMatchSnapshot();
+  });
+
+  it('Should reference definitions in the function parameters', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { root: { name: 'Food', children: [] } } },
+    ]);
+    await completion(model, 'Categorize the products', {
+      schema: taxonomySchema,
+      definitions: { Category: category },
+    });
+
+    const [{ parameters }] = model.requests[0].opt.functions ?? [];
+    expect(parameters.properties.root).toEqual({
+      $ref: '#/definitions/Category',
+    });
+    expect(parameters.definitions.Category.properties.children.items).toEqual({
+      $ref: '#/definitions/Category',
+    });
+  });
+
+  it('Should inline the root schema when it is one of the definitions', async () => {
+    const model = createJsonPromptModel([
+      ' { "name": "Food", "children": [] } }',
+    ]);
+    const res = await completion(model, 'Categorize the products', {
+      schema: taxonomySchema,
+      definitions: { Taxonomy: taxonomySchema, Category: category },
+    });
+
+    expect(res.data).toEqual({ root: { name: 'Food', children: [] } });
+    expect(model.requests[0].opt.responsePrefix).toBe('```json\n{ "root":');
+    expect(model.requests[0].opt.systemMessage).toContain(
+      '"properties":{"root":{"$ref":"#/definitions/Category"}}',
+    );
+  });
+});
+
+describe('examples', () => {
+  it('Should send examples as function calls before the prompt', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { name: 'Acme', employees: 3 } },
+      { arguments: { name: 'Hooli', employees: 5 } },
+    ]);
+    const res = await completion(model, 'Generate a startup', {
+      schema,
+      examples: [{ name: 'Initech', employees: 50 }],
+    });
+    expect(model.requests[0].messages).toMatchSnapshot();
+
+    // examples are only sent once when the conversation continues
+    await res.respond('Thanks');
+    expect(
+      model.requests[1].messages.filter((m) => m.toolCallId === 'example_1'),
+    ).toHaveLength(1);
+  });
+
+  it('Should send examples as json code blocks with the json prompt', async () => {
+    const model = createJsonPromptModel([' "Acme", "employees": 3 }']);
+    await completion(model, 'Generate a startup', {
+      schema,
+      examples: [{ name: 'Initech', employees: 50 }],
+    });
+
+    expect(model.requests[0].messages.slice(0, 2)).toEqual([
+      { role: 'user', content: 'Respond with an example output.' },
+      {
+        role: 'assistant',
+        content: '```json\n{"name":"Initech","employees":50}\n```',
+      },
+    ]);
+  });
+});
@@ -1,56 +1,197 @@
 import {
   TokenError,
   CompletionApi,
-  AnthropicChatApi,
   ChatRequestMessage,
-  AnthropicBedrockChatApi,
-  GroqChatApi,
+  ChatResponse,
+  ModelRequestOptions,
 } from 'llm-api';
-import { defaults, last } from 'lodash';
+import { defaults, omit } from 'lodash';
 import { z } from 'zod';
 
-import type { RequestOptions, Response } from './types';
+import { loadMessageAttachments, toUserMessage } from './attachments';
+import { getCacheKey } from './cache';
+import { getCapabilities, ModelCapabilities } from './capabilities';
+import { FunctionName, getAutoHealOptions } from './defaults';
+import {
+  AutoHealError,
+  AutoSliceError,
+  CompletionError,
+  FunctionNotCalledError,
+  JsonParseError,
+  SchemaValidationError,
+} from './errors';
+import { sendRequest } from './request';
+import { isFallbackError, ModelChain, resolveModels } from './routing';
+import {
+  EnvelopeKey,
+  formatIssues,
+  toZodIssues,
+  fromStrictData,
+  getOutputSchema,
+  renderSchema,
+  toStrictJsonSchema,
+  unwrapOutput,
+} from './schema';
+import { sliceMessages } from './slice';
+import type { TraceSpan } from './tracing';
+import type {
+  ChatMessage,
+  ContentPart,
+  HealAttempt,
+  ModelRequestOptionsWithFormat,
+  OutputStrategy,
+  RequestOptions,
+  Response,
+} from './types';
+import {
+  chainUsage,
+  createUsageReport,
+  RequestKind,
+  RequestUsage,
+  UsageReport,
+} from './usage';
 import { debug, parseUnsafeJson, zodToJsonSchema } from './utils';
 
-const FunctionName = 'print';
 const FunctionDescription =
   'Respond by calling this function with the correct parameters.';
+const ExamplePrompt = 'Respond with an example output.';
+const ExampleReceivedMessage = 'Example received.';
 
 const Defaults = {
   autoHeal: true,
   autoSlice: false,
 };
 
+// prefer the strategy that gives the strongest guarantee that the output follows the schema
+function getDefaultStrategy(capabilities: ModelCapabilities): OutputStrategy {
+  if (capabilities.strictSchema) {
+    return 'strict_schema';
+  } else if (capabilities.functionCalling) {
+    return 'function';
+  } else if (capabilities.jsonMode) {
+    return 'json_mode';
+  }
+  return 'json_prompt';
+}
+
 export async function completion<T extends z.ZodType = z.ZodString>(
-  model: CompletionApi,
-  prompt: string | (() => string),
+  model: ModelChain,
+  prompt: string | (() => string) | ContentPart[],
   opt?: Partial<RequestOptions<T>>,
 ): Promise<Response<T>> {
-  const message = typeof prompt === 'string' ? prompt : prompt();
-  const messages: ChatRequestMessage[] = [
+  const messages: ChatMessage[] = [
     ...(opt?.messageHistory ?? []),
-    { role: 'user', content: message },
+    toUserMessage(typeof prompt === 'function' ? prompt() : prompt),
   ];
 
   return chat(model, messages, opt);
 }
 
 export async function chat<T extends z.ZodType = z.ZodString>(
+  model: ModelChain,
+  messages: ChatMessage[],
+  _opt?: Partial<RequestOptions<T>>,
+): Promise<Response<T>> {
+  const span = _opt?.tracer?.startSpan('zod-gpt.chat', {
+    'zod_gpt.schema': !!_opt?.schema,
+  });
+
+  try {
+    const models = await resolveModels(model, messages);
+    span?.setAttributes({
+      'gen_ai.request.model': models[0].modelConfig.model,
+    });
+    const res = await sendWithFallback(
+      models,
+      await loadMessageAttachments(messages),
+      _opt,
+      span,
+    );
+    span?.setAttributes({
+      'gen_ai.response.model': res.model.modelConfig.model,
+      'zod_gpt.validation.success': true,
+      'zod_gpt.heal_attempts': res.usageReport.requests.filter(
+        (r) => r.kind === 'heal',
+      ).length,
+      'zod_gpt.cached': !!res.cached,
+      'gen_ai.usage.input_tokens': res.usageReport.total.promptTokens,
+      'gen_ai.usage.output_tokens': res.usageReport.total.completionTokens,
+    });
+    return res;
+  } catch (e) {
+    span?.setAttributes({
+      'zod_gpt.validation.success': false,
+      'zod_gpt.heal_attempts':
+        e instanceof AutoHealError ? e.attempts.length - 1 : undefined,
+    });
+    span?.recordException(e);
+    _opt?.onError?.(e);
+    throw e;
+  } finally {
+    span?.end();
+  }
+}
+
+// send the request to every model in order, until one of them produces valid data
+async function sendWithFallback<T extends z.ZodType = z.ZodString>(
+  models: CompletionApi[],
+  messages: ChatRequestMessage[],
+  opt: Partial<RequestOptions<T>> | undefined,
+  span: TraceSpan | undefined,
+): Promise<Response<T>> {
+  const shouldFallback = opt?.shouldFallback ?? isFallbackError;
+  // requests of the models that failed are billed too, so they are added to the usage of the final response or error
+  let failedUsage = createUsageReport([]);
+  for (let i = 0; ; i++) {
+    const model = models[i];
+    const next = models[i + 1];
+    try {
+      return chainUsage(
+        failedUsage,
+        await sendChat(model, messages, opt, span),
+      );
+    } catch (e) {
+      if (e instanceof CompletionError) {
+        e.usageReport = createUsageReport([
+          ...failedUsage.requests,
+          ...e.usageReport.requests,
+        ]);
+        failedUsage = e.usageReport;
+      }
+      if (!next || !shouldFallback(e, model)) {
+        throw e;
+      }
+
+      debug.log(
+        `⚠️ ${model.modelConfig.model ?? 'model'} failed, falling back to ${
+          next.modelConfig.model ?? 'the next model'
+        }`,
+        e,
+      );
+      span?.setAttributes({ 'zod_gpt.fallbacks': i + 1 });
+      opt?.onFallback?.({ error: e, model, next });
+    }
+  }
+}
+
+async function sendChat<T extends z.ZodType = z.ZodString>(
   model: CompletionApi,
   messages: ChatRequestMessage[],
-  _opt?: Partial<RequestOptions<T>>,
+  _opt: Partial<RequestOptions<T>> | undefined,
+  span: TraceSpan | undefined,
 ): Promise<Response<T>> {
-  const jsonSchema = _opt?.schema && zodToJsonSchema(_opt?.schema);
+  const output = _opt?.schema && getOutputSchema(_opt.schema);
+  const jsonSchema =
+    output && zodToJsonSchema(output.schema, _opt?.definitions);
+  const functionName = _opt?.functionName ?? FunctionName;
   const opt = defaults(
     {
       // build function to call if schema is defined
-      callFunction: _opt?.schema
-        ? _opt.functionName ?? FunctionName
-        : undefined,
+      callFunction: _opt?.schema ? functionName : undefined,
       functions: _opt?.schema
         ? [
             {
-              name: _opt.functionName ?? FunctionName,
+              name: functionName,
               description: _opt.functionDescription ?? FunctionDescription,
               parameters: jsonSchema,
             },
@@ -61,47 +202,244 @@ export async function chat<T extends z.ZodType = z.ZodString>(
     Defaults,
   );
 
-  if (
-    opt.schema &&
-    (opt.schema._def as any).typeName !== z.ZodFirstPartyTypeKind.ZodObject
-  ) {
-    throw new Error('Schemas can ONLY be an object');
-  }
   debug.log('⬆️ sending request:', messages);
 
+  // usage of every request sent for this prompt, failed requests are attached to the thrown error
+  const usageRequests: RequestUsage[] = [];
   try {
-    const hasFunctionCall = !(
-      model instanceof AnthropicChatApi ||
-      model instanceof AnthropicBedrockChatApi ||
-      model instanceof GroqChatApi
-    );
+    const capabilities = getCapabilities(model, _opt?.capabilities);
+    if (
+      !capabilities.vision &&
+      messages.some((m: ChatMessage) => m.attachments?.length)
+    ) {
+      throw new Error(
+        `${
+          model.modelConfig.model ?? 'Model'
+        } does not support images or files, set the vision capability for models that send the attachments of messages`,
+      );
+    }
+    const strategy = _opt?.strategy ?? getDefaultStrategy(capabilities);
+    const hasFunctionCall = strategy === 'function';
+    const schemaFormat = _opt?.schemaFormat ?? 'json_schema';
+    const schemaName =
+      schemaFormat === 'typescript' ? 'TypeScript type' : 'JSON schema';
+    const schemaTag =
+      schemaFormat === 'typescript' ? 'typescript_type' : 'json_schema';
     const schemaInstructions =
-      !hasFunctionCall && _opt?.schema && JSON.stringify(jsonSchema);
-    const firstSchemaKey =
       !hasFunctionCall &&
+      output &&
+      renderSchema(jsonSchema, schemaFormat, output.schema.description);
+    const firstSchemaKey =
+      strategy === 'json_prompt' &&
       _opt?.schema &&
       Object.keys(jsonSchema['properties'])[0];
     const responsePrefix = `\`\`\`json\n{ "${firstSchemaKey}":`;
     const stopSequence = '```';
 
-    // Anthropic does not have support for functions, so create a custom system message and inject it as the first system message
-    // Use the `responsePrefix` property to steer anthropic to output in the json structure
-    let response =
-      !hasFunctionCall && _opt?.schema
-        ? await model.chatCompletion(messages, {
-            ...opt,
-            systemMessage:
-              `You will respond to ALL human messages in JSON. Make sure the response correctly follow the following JSON schema specifications:\n<json_schema>\n${schemaInstructions}\n</json_schema>\n\n${
-                opt.systemMessage
-                  ? typeof opt.systemMessage === 'string'
-                    ? opt.systemMessage
-                    : opt.systemMessage()
-                  : ''
-              }`.trim(),
-            responsePrefix: opt.responsePrefix ?? responsePrefix,
-            stop: stopSequence,
-          })
-        : await model.chatCompletion(messages, opt);
+    // for strategies without function calling, create a custom system message with the schema and inject it as the first system message
+    const schemaSystemMessage =
+      `You will respond to ALL human messages in JSON. Make sure the response correctly follow the following ${schemaName} specifications:\n<${schemaTag}>\n${schemaInstructions}\n</${schemaTag}>\n\n${
+        opt.systemMessage
+          ? typeof opt.systemMessage === 'string'
+            ? opt.systemMessage
+            : opt.systemMessage()
+          : ''
+      }`.trim();
+    const jsonOpt = omit(opt, 'functions', 'callFunction');
+
+    let requestOpt: ModelRequestOptionsWithFormat = opt;
+    if (_opt?.schema && strategy === 'json_prompt') {
+      // if the model supports prefilling, use the `responsePrefix` property to steer the model to output in the json structure
+      // the stop sequence closes the prefilled code block, so it is only set together with the prefix
+      requestOpt = {
+        ...jsonOpt,
+        systemMessage: schemaSystemMessage,
+        ...(capabilities.responsePrefill
+          ? {
+              responsePrefix: opt.responsePrefix ?? responsePrefix,
+              stop: capabilities.stopSequences ? stopSequence : opt.stop,
+            }
+          : {}),
+      };
+    } else if (_opt?.schema && strategy === 'json_mode') {
+      // json mode only guarantees valid json, so the schema is still sent in the system message
+      requestOpt = {
+        ...jsonOpt,
+        systemMessage: schemaSystemMessage,
+        responseFormat: { type: 'json_object' },
+      };
+    } else if (_opt?.schema && strategy === 'strict_schema') {
+      requestOpt = {
+        ...jsonOpt,
+        responseFormat: {
+          type: 'json_schema',
+          name: functionName,
+          schema: toStrictJsonSchema(jsonSchema),
+          strict: true,
+        },
+      };
+    }
+
+    // few shot examples are sent as earlier turns, in the same format that the model is asked to respond in
+    const exampleMessages: ChatRequestMessage[] = output
+      ? [
+          ...(opt.examples ?? []).map((example) => ({
+            prompt: ExamplePrompt,
+            output: example,
+          })),
+          ...(opt.promptExamples ?? []),
+        ].flatMap(({ prompt, output: example }, i): ChatRequestMessage[] => {
+          const json = JSON.stringify(
+            output.wrapped ? { [EnvelopeKey]: example } : example,
+          );
+          const request: ChatRequestMessage = {
+            role: 'user',
+            content: prompt,
+          };
+          if (hasFunctionCall) {
+            const id = `example_${i + 1}`;
+            return [
+              request,
+              {
+                role: 'assistant',
+                content: '',
+                toolCall: {
+                  id,
+                  type: 'function',
+                  function: { name: functionName, arguments: json },
+                },
+              },
+              { role: 'tool', toolCallId: id, content: ExampleReceivedMessage },
+            ];
+          }
+          return [
+            request,
+            {
+              role: 'assistant',
+              content:
+                strategy === 'json_prompt'
+                  ? `\`\`\`json\n${json}\n\`\`\``
+                  : json,
+            },
+          ];
+        })
+      : [];
+    const initialMessages = [...exampleMessages, ...messages];
+
+    // replies to a function call needs to be sent back as a tool message, everything else is a user message
+    const toReplyMessage = (
+      content: string,
+      response: Omit<ChatResponse, 'respond'>,
+    ): ChatRequestMessage =>
+      hasFunctionCall && response.toolCallId
+        ? { role: 'tool', toolCallId: response.toolCallId, content }
+        : { role: 'user', content };
+    const respond =
+      (
+        history: ChatRequestMessage[],
+        response: Omit<ChatResponse, 'respond'>,
+        usageReport: UsageReport,
+      ) =>
+      async (message: string | ChatRequestMessage, opt?: ModelRequestOptions) =>
+        chainUsage(
+          usageReport,
+          await chat<T>(
+            model,
+            [
+              // the examples are added again by the next call
+              ...history.slice(exampleMessages.length),
+              response.message,
+              typeof message === 'string'
+                ? toReplyMessage(message, response)
+                : message,
+            ],
+            opt ?? _opt,
+          ),
+        );
+
+    // serve identical requests from the cache, the cached json is parsed and validated again so the data goes through the same checks
+    const cacheKey =
+      opt.cache &&
+      getCacheKey(model, initialMessages, {
+        ...requestOpt,
+        jsonSchema,
+        functionName,
+        functionDescription: opt.functionDescription,
+        strategy,
+      });
+    const cached = cacheKey ? await opt.cache?.get(cacheKey) : undefined;
+    if (cached) {
+      const res = await output?.schema.safeParseAsync(cached.json);
+      // validate is not part of the cache key, so entries that fail it are treated as misses
+      const validationIssues =
+        output && res?.success && opt.validate
+          ? toZodIssues(
+              output,
+              (await opt.validate(unwrapOutput(output, res.data))) ?? [],
+            )
+          : [];
+      if (validationIssues.length > 0) {
+        debug.log('⚠️ cached response failed validation:', cacheKey);
+      } else if (!res || res.success) {
+        debug.log('⬇️ received cached response:', cacheKey);
+        const usageReport = createUsageReport([]);
+        return {
+          ...cached.response,
+          respond: respond(cached.messages, cached.response, usageReport),
+          data:
+            output && res
+              ? unwrapOutput(output, res.data)
+              : String(cached.response.content),
+          json: output && unwrapOutput(output, cached.json),
+          cached: true,
+          usageReport,
+          model,
+        };
+      }
+    }
+
+    const send = async (
+      requestMessages: ChatRequestMessage[],
+      kind: RequestKind,
+    ) => {
+      const { response, usage } = await sendRequest(
+        model,
+        requestMessages,
+        kind,
+        requestOpt,
+        opt,
+        span,
+      );
+      usageRequests.push(usage);
+      return response;
+    };
+
+    // messages of the request that produced the current response, grows with every auto heal round
+    let requestMessages = initialMessages;
+    const toResponse = async (
+      response: ChatResponse,
+      data: any,
+      json?: any,
+    ): Promise<Response<T>> => {
+      if (cacheKey) {
+        await opt.cache?.set(cacheKey, {
+          messages: requestMessages,
+          response: omit(response, 'respond'),
+          json,
+        });
+      }
+      const usageReport = createUsageReport(usageRequests);
+      return {
+        ...response,
+        respond: respond(requestMessages, response, usageReport),
+        data,
+        json: output && unwrapOutput(output, json),
+        usageReport,
+        model,
+      };
+    };
+
+    let response = await send(requestMessages, 'request');
     if (!response) {
       throw new Error('Chat request failed');
     }
@@ -109,141 +447,147 @@ export async function chat<T extends z.ZodType = z.ZodString>(
     // only send this debug msg when stream is not enabled, or there'll be duplicate log msgs since stream also streams in the logs
     !model.modelConfig.stream && debug.log('⬇️ received response:', response);
 
-    // validate res content, and recursively loop if invalid
-    if (opt?.schema) {
-      if (hasFunctionCall && !response.arguments) {
-        if (opt.autoHeal) {
-          debug.log('⚠️ function not called, autohealing...');
-          response = await response.respond({
-            role: 'user',
-            content: `Please respond with a call to the ${FunctionName} function`,
-          });
+    // validate res content, and loop with repair messages until it is valid or we run out of attempts
+    if (output) {
+      const autoHeal = getAutoHealOptions(opt.autoHeal);
+      const attempts: HealAttempt[] = [];
 
-          if (!response.arguments) {
-            throw new Error('Response function autoheal failed');
-          }
-        } else {
-          throw new Error('Response function not called');
+      for (;;) {
+        const functionCalled = !hasFunctionCall || !!response.arguments;
+        const parsed = hasFunctionCall
+          ? response.arguments
+          : parseUnsafeJson(response.content ?? '');
+        const json =
+          strategy === 'strict_schema' && parsed
+            ? fromStrictData(output.schema, parsed)
+            : parsed;
+        const res = json ? await output.schema.safeParseAsync(json) : undefined;
+
+        // business checks only run on data that passed the schema, and are healed the same way as schema issues
+        const validationIssues =
+          res?.success && opt.validate
+            ? toZodIssues(
+                output,
+                (await opt.validate(unwrapOutput(output, res.data))) ?? [],
+              )
+            : [];
+        if (res?.success && validationIssues.length === 0) {
+          return toResponse(response, unwrapOutput(output, res.data), json);
         }
-      }
 
-      let json = hasFunctionCall
-        ? response.arguments
-        : parseUnsafeJson(response.content ?? '');
-      if (!json) {
-        throw new Error('No response received');
-      }
+        res &&
+          !res.success &&
+          debug.error('⚠️ error parsing response', res.error);
+        validationIssues.length > 0 &&
+          debug.error('⚠️ error validating response', validationIssues);
+        const attempt: HealAttempt = {
+          content: response.content,
+          arguments: response.arguments,
+          json,
+          issues: res?.success ? validationIssues : res?.error.issues ?? [],
+        };
+        attempts.push(attempt);
 
-      const res = opt.schema.safeParse(json);
-      if (res.success) {
-        return {
-          ...response,
-          respond: (message: string | ChatRequestMessage, opt) =>
-            chat(
-              model,
-              [
-                ...messages,
-                response.message,
-                typeof message === 'string'
-                  ? {
-                      role: hasFunctionCall ? 'tool' : 'user',
-                      toolCallId: response.toolCallId,
-                      content: message,
-                    }
-                  : message,
-              ],
-              opt ?? _opt,
-            ),
-          data: res.data,
+        const details = {
+          messages: requestMessages,
+          response,
+          json,
+          issues: attempt.issues,
+          usageReport: createUsageReport(usageRequests),
         };
-      } else {
-        debug.error('⚠️ error parsing response', res.error);
-        if (opt.autoHeal) {
-          debug.log('⚠️ response parsing failed, autohealing...', res.error);
-          const issuesMessage = res.error.issues.reduce(
-            (prev, issue) =>
-              issue.path && issue.path.length > 0
-                ? `${prev}\nThe issue is at path ${issue.path.join('.')}: ${
-                    issue.message
-                  }.`
-                : `\nThe issue is: ${issue.message}.`,
+        if (!autoHeal) {
+          if (!functionCalled) {
+            throw new FunctionNotCalledError(
+              'Response function not called',
+              details,
+            );
+          } else if (!json) {
+            throw new JsonParseError('No response received', details);
+          } else {
+            throw new SchemaValidationError('Response parsing failed', details);
+          }
+        }
+        if (attempts.length > autoHeal.maxAttempts) {
+          throw new AutoHealError('Response schema autoheal failed', {
+            ...details,
+            attempts,
+          });
+        }
+
+        autoHeal.onAttempt?.(attempt, attempts.length);
+        opt.onHealAttempt?.(attempt, attempts.length);
+        let healMessage: ChatRequestMessage;
+        if (!functionCalled) {
+          debug.log('⚠️ function not called, autohealing...');
+          healMessage = {
+            role: 'user',
+            content: `Please respond with a call to the ${functionName} function`,
+          };
+        } else {
+          debug.log(
+            '⚠️ response parsing failed, autohealing...',
+            attempt.issues,
+          );
+          const issuesMessage = formatIssues(
             hasFunctionCall
-              ? `There is an issue with that response, please rewrite by calling the ${FunctionName} function with the correct parameters.`
+              ? `There is an issue with that response, please rewrite by calling the ${functionName} function with the correct parameters.`
               : `There is an issue with that response, please follow the JSON schema EXACTLY, the output must be valid parsable JSON: ${schemaInstructions}`,
+            attempt.issues,
           );
-          response = await response.respond(issuesMessage);
-        } else {
-          throw new Error('Response parsing failed');
+          healMessage = toReplyMessage(issuesMessage, response);
         }
-      }
 
-      json = hasFunctionCall
-        ? response.arguments
-        : parseUnsafeJson(response.content ?? '');
-      if (!json) {
-        throw new Error('Response schema autoheal failed');
+        requestMessages = [...requestMessages, response.message, healMessage];
+        response = await send(requestMessages, 'heal');
       }
-
-      // TODO: there is definitely a cleaner way to implement this to avoid the duplicate parsing
-      const data = opt.schema.parse(json);
-      return {
-        ...response,
-        respond: (message: string | ChatRequestMessage, opt) =>
-          chat(
-            model,
-            [
-              ...messages,
-              response.message,
-              typeof message === 'string'
-                ? {
-                    role: hasFunctionCall ? 'tool' : 'user',
-                    toolCallId: response.toolCallId,
-                    content: message,
-                  }
-                : message,
-            ],
-            opt ?? _opt,
-          ),
-        data,
-      };
     }
 
     // if no schema is defined, default to string
-    return {
-      ...response,
-      respond: (message: string | ChatRequestMessage, opt) =>
-        chat(
-          model,
-          [
-            ...messages,
-            response.message,
-            typeof message === 'string'
-              ? { role: 'user', content: message }
-              : message,
-          ],
-          opt ?? _opt,
-        ),
-      data: String(response.content),
-    };
+    return toResponse(response, String(response.content));
   } catch (e) {
-    // For autoslice, keep looping recursively, chopping off a bit of the message at a time, until it fits
+    // For autoslice, keep looping recursively, slicing off a bit of the prompt at a time, until it fits
     if (e instanceof TokenError && opt.autoSlice) {
-      // break out the last message to auto slice
-      const message = last(messages)?.content ?? '';
-      const chunkSize = message.length - e.overflowTokens;
-      if (chunkSize < 0) {
-        throw e;
+      const strategy = opt.autoSlice === true ? 'end' : opt.autoSlice;
+      const sliced = await sliceMessages(
+        model,
+        messages,
+        e.overflowTokens,
+        strategy,
+        opt.pricing,
+      );
+      if (!sliced) {
+        throw new AutoSliceError('Prompt is too long to be auto sliced', {
+          messages,
+          cause: e,
+          usageReport: createUsageReport(usageRequests),
+        });
       }
 
       debug.log(
-        `⚠️ Request prompt too long, splitting text with chunk size of ${chunkSize}`,
-      );
-      const newMessage = message.slice(0, chunkSize);
-      return chat(
-        model,
-        [...messages.slice(0, -1), { role: 'user', content: newMessage }],
-        opt,
+        `⚠️ Request prompt too long by ${e.overflowTokens} tokens, slicing with the ${strategy} strategy`,
       );
+      opt.onSlice?.(sliced.report);
+      // requests sent before the prompt overflowed are still billed
+      const previousUsage = createUsageReport([
+        ...usageRequests,
+        ...sliced.usageReport.requests,
+      ]);
+      let res: Response<T>;
+      try {
+        res = await sendChat(model, sliced.messages, opt, span);
+      } catch (error) {
+        if (error instanceof CompletionError) {
+          error.usageReport = createUsageReport([
+            ...previousUsage.requests,
+            ...error.usageReport.requests,
+          ]);
+        }
+        throw error;
+      }
+      return chainUsage(previousUsage, {
+        ...res,
+        slices: [sliced.report, ...(res.slices ?? [])],
+      });
     } else {
       throw e;
     }
@@ -3,3 +3,10 @@ export const RateLimitRetryIntervalMs = 30_000;
 export const CompletionDefaultRetries = 3;
 export const CompletionDefaultTimeout = 60_000;
 export const MinimumResponseTokens = 200;
+
+// token estimates of attachments, following the openai image pricing
+export const ImageBaseTokens = 85;
+export const ImageTileTokens = 170;
+// estimate for images with unknown dimensions, the cost of a 1024x1024 image
+export const DefaultImageTokens = 765;
+export const PdfPageTokens = 1_500;
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+
+import { Conversation } from './conversation';
+import { MockCompletionApi } from './mock';
+
+describe('Conversation', () => {
+  it('Should keep the history across turns with different schemas', async () => {
+    const model = new MockCompletionApi([
+      'Hi, how can I help?',
+      { arguments: { intent: 'refund' } },
+      'Your refund is on its way.',
+    ]);
+    const conversation = new Conversation(model, {
+      systemMessage: 'You are a support bot',
+    });
+
+    await conversation.send('Hello');
+    const res = await conversation.send('I want my money back', {
+      schema: z.object({ intent: z.enum(['refund', 'other']) }),
+    });
+    expect(res.data).toEqual({ intent: 'refund' });
+
+    await conversation.send('Thanks');
+    expect(model.requests[2].messages).toHaveLength(5);
+    expect(model.requests[2].opt.systemMessage).toBe('You are a support bot');
+    // the function call is answered with a tool message
+    expect(conversation.messages[4]).toEqual({
+      role: 'tool',
+      toolCallId: 'call_1',
+      content: 'Thanks',
+    });
+    expect(conversation.messages).toHaveLength(6);
+  });
+
+  it('Should record auto heal rounds without adding them to the history', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { intent: 'money' } },
+      { arguments: { intent: 'refund' } },
+    ]);
+    const conversation = new Conversation(model);
+
+    await conversation.send('I want my money back', {
+      schema: z.object({ intent: z.enum(['refund', 'other']) }),
+    });
+    expect(conversation.messages.map((m) => m.role)).toEqual([
+      'user',
+      'assistant',
+    ]);
+    expect(conversation.messages[1].toolCall?.id).toBe('call_2');
+    expect(conversation.turns[0].healMessages.map((m) => m.role)).toEqual([
+      'assistant',
+      'tool',
+    ]);
+  });
+
+  it('Should leave out the heal rounds of models that failed in a fallback chain', async () => {
+    const primary = new MockCompletionApi([
+      { arguments: { intent: 'money' } },
+      { arguments: { intent: 'cash' } },
+    ]);
+    const secondary = new MockCompletionApi([
+      { arguments: { intent: 'refund' } },
+    ]);
+    const conversation = new Conversation([primary, secondary], {
+      keepHealMessages: true,
+    });
+
+    await conversation.send('I want my money back', {
+      schema: z.object({ intent: z.enum(['refund', 'other']) }),
+    });
+    expect(primary.requests).toHaveLength(2);
+    expect(conversation.turns[0].healMessages).toEqual([]);
+    expect(conversation.messages.map((m) => m.role)).toEqual([
+      'user',
+      'assistant',
+    ]);
+  });
+
+  it('Should rehydrate a serialized conversation', async () => {
+    const conversation = new Conversation(
+      new MockCompletionApi(['Hi, how can I help?']),
+    );
+    await conversation.send('Hello');
+    const json = JSON.parse(JSON.stringify(conversation));
+
+    const model = new MockCompletionApi(['Sure']);
+    const rehydrated = Conversation.fromJSON(model, json);
+    await rehydrated.send('Can you help me?');
+
+    expect(model.requests[0].messages).toEqual([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi, how can I help?' },
+      { role: 'user', content: 'Can you help me?' },
+    ]);
+  });
+
+  it('Should store attachments as data urls, so the conversation can be rehydrated', async () => {
+    const image = Buffer.from('89504e470d0a1a0a', 'hex');
+    const conversation = new Conversation(
+      new MockCompletionApi(['A cat'], {}, { capabilities: { vision: true } }),
+    );
+    await conversation.send({
+      role: 'user',
+      content: 'What is in this image?',
+      attachments: [{ type: 'image', image }],
+    });
+    const json = JSON.parse(JSON.stringify(conversation));
+
+    const model = new MockCompletionApi(
+      ['Yes'],
+      {},
+      { capabilities: { vision: true } },
+    );
+    await Conversation.fromJSON(model, json).send('Is it sleeping?');
+
+    expect(model.requests[0].messages[0]).toMatchObject({
+      attachments: [
+        {
+          type: 'image',
+          image: `data:image/png;base64,${image.toString('base64')}`,
+          mimeType: 'image/png',
+        },
+      ],
+    });
+  });
+
+  it('Should trim the oldest messages to fit the token budget', async () => {
+    const model = new MockCompletionApi(['0123456789', 'ok', 'Done']);
+    const conversation = new Conversation(model, { maxHistoryTokens: 15 });
+
+    await conversation.send('abcdefghij');
+    await conversation.send('Hi');
+    await conversation.send('Next');
+
+    // the history always starts with a user message
+    expect(model.requests[1].messages).toEqual([
+      { role: 'user', content: 'Hi' },
+    ]);
+    expect(model.requests[2].messages).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'ok' },
+      { role: 'user', content: 'Next' },
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { last } from 'lodash';
+import type { z } from 'zod';
+
+import { getMessageTokens, loadMessageAttachments } from './attachments';
+import { chat } from './completion';
+import { ModelChain, resolveModels } from './routing';
+import { dropOldestMessages } from './slice';
+import type { ChatMessage, RequestOptions, Response } from './types';
+import type { UsageReport } from './usage';
+
+export type ConversationOptions = Omit<
+  Partial<RequestOptions<any>>,
+  'schema' | 'messageHistory'
+> & {
+  // history to start from, e.g. the messages of a rehydrated conversation
+  messages?: ChatMessage[];
+
+  // trim the oldest messages before every turn, so the history fits in this many tokens
+  maxHistoryTokens?: number;
+
+  // keep the failed responses and repair messages of auto heal rounds in the history
+  // default: false
+  keepHealMessages?: boolean;
+};
+
+export type ConversationTurn = {
+  // messages this turn added to the history
+  messages: ChatMessage[];
+
+  // failed responses and repair messages of auto heal rounds, in the order they were sent
+  healMessages: ChatMessage[];
+
+  usageReport: UsageReport;
+};
+
+export type SerializedConversation = {
+  messages: ChatMessage[];
+};
+
+// multi turn conversation that owns its history, so it can be persisted between requests with `toJSON` and `Conversation.fromJSON`
+export class Conversation {
+  model: ModelChain;
+  messages: ChatMessage[];
+
+  // turns sent since the conversation was created, including their auto heal rounds, turns are not serialized
+  turns: ConversationTurn[] = [];
+
+  private opt: Omit<ConversationOptions, 'messages'>;
+
+  constructor(model: ModelChain, options: ConversationOptions = {}) {
+    const { messages = [], ...opt } = options;
+    this.model = model;
+    this.messages = [...messages];
+    this.opt = opt;
+  }
+
+  static fromJSON(
+    model: ModelChain,
+    json: SerializedConversation,
+    options: Omit<ConversationOptions, 'messages'> = {},
+  ): Conversation {
+    return new Conversation(model, { ...options, messages: json.messages });
+  }
+
+  toJSON(): SerializedConversation {
+    return { messages: this.messages };
+  }
+
+  // send a message and add it to the history together with the response, each turn can use its own schema
+  async send<T extends z.ZodType = z.ZodString>(
+    message: string | ChatMessage,
+    opt?: Partial<RequestOptions<T>>,
+  ): Promise<Response<T>> {
+    if (this.opt.maxHistoryTokens !== undefined) {
+      await this.trim(this.opt.maxHistoryTokens);
+    }
+
+    const requestOpt = { ...this.opt, ...opt };
+    // attachments are loaded before they are added to the history, so buffers and local paths are stored as data urls
+    const [userMessage] = await loadMessageAttachments([
+      typeof message === 'string' ? this.toReplyMessage(message) : message,
+    ]);
+    const messages = [...this.messages, userMessage];
+
+    // heal rounds are appended to the messages of the last request, as pairs of the failed response and the repair message
+    // requests of models that failed earlier in a fallback chain are left out, since they are not part of the response
+    let firstRequest = messages;
+    let lastRequest = messages;
+    const res = await chat<T>(this.model, messages, {
+      ...requestOpt,
+      onRequest: (event) => {
+        if (event.kind === 'request') {
+          firstRequest = event.messages;
+        }
+        lastRequest = event.messages;
+        requestOpt.onRequest?.(event);
+      },
+    });
+    const healMessages = lastRequest.slice(firstRequest.length);
+
+    const turnMessages = this.opt.keepHealMessages
+      ? [userMessage, ...healMessages, res.message]
+      : [userMessage, res.message];
+    this.messages.push(...turnMessages);
+    this.turns.push({
+      messages: turnMessages,
+      healMessages,
+      usageReport: res.usageReport,
+    });
+    return res;
+  }
+
+  // drop the oldest messages until the history fits in `maxTokens`, counted with the tokenizer of the first model, returns the dropped messages
+  async trim(maxTokens: number): Promise<ChatMessage[]> {
+    const [model] = await resolveModels(this.model, this.messages);
+    const tokens = getMessageTokens(model, this.messages);
+    if (tokens <= maxTokens) {
+      return [];
+    }
+
+    const dropped = dropOldestMessages(
+      model,
+      this.messages,
+      tokens - maxTokens,
+    );
+    this.messages = dropped.messages;
+    return dropped.removedMessages;
+  }
+
+  // a function call has to be answered with a tool message before the conversation can continue
+  private toReplyMessage(content: string): ChatMessage {
+    const lastMessage = last(this.messages);
+    return lastMessage?.toolCall
+      ? { role: 'tool', toolCallId: lastMessage.toolCall.id, content }
+      : { role: 'user', content };
+  }
+}
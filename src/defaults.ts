@@ -0,0 +1,23 @@
+import { defaults } from 'lodash';
+
+import type { AutoHealOptions } from './types';
+
+// defaults shared between `chat` and `runTools`, kept out of the public api since this module is not exported from the index
+export const FunctionName = 'print';
+
+const AutoHealDefaults = {
+  maxAttempts: 1,
+};
+
+export function getAutoHealOptions(
+  autoHeal: boolean | AutoHealOptions | undefined,
+): (AutoHealOptions & typeof AutoHealDefaults) | undefined {
+  if (!autoHeal) {
+    return undefined;
+  }
+  return defaults(
+    {},
+    typeof autoHeal === 'object' ? autoHeal : {},
+    AutoHealDefaults,
+  );
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+import { ensemble } from './ensemble';
+import { MockCompletionApi } from './mock';
+
+const schema = z.object({
+  label: z.enum(['spam', 'ham']),
+  tags: z.array(z.string()),
+});
+
+describe('ensemble', () => {
+  it('Should vote per field and report agreement scores', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { label: 'spam', tags: ['ads'] } },
+      { arguments: { label: 'spam', tags: ['ads', 'scam'] } },
+      { arguments: { label: 'ham', tags: ['ads'] } },
+    ]);
+    const res = await ensemble(model, 'Classify this email', { schema });
+
+    expect(res.data).toEqual({ label: 'spam', tags: ['ads', 'scam'] });
+    expect(res.agreement.label).toBeCloseTo(2 / 3);
+    expect(res.agreement.tags).toBeCloseTo((0.5 + 1 + 0.5) / 3);
+    expect(res.confidence).toBeCloseTo(2 / 3);
+    expect(res.samples).toHaveLength(3);
+    expect(res.usageReport.requests).toHaveLength(3);
+  });
+
+  it('Should vote on the json of the samples for schemas with transforms', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { label: 'spam', word: 'ab' } },
+      { arguments: { label: 'spam', word: 'abc' } },
+      { arguments: { label: 'ham', word: 'abc' } },
+    ]);
+    const res = await ensemble(model, 'Classify this email', {
+      schema: z.object({
+        label: z.enum(['spam', 'ham']),
+        word: z.string().transform((word) => word.length),
+      }),
+    });
+
+    expect(res.data).toEqual({ label: 'spam', word: 3 });
+    expect(res.agreement).toEqual({ label: 2 / 3, word: 2 / 3 });
+  });
+
+  it('Should only keep array items found in every sample with intersection', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { label: 'spam', tags: ['ads', 'scam'] } },
+      { arguments: { label: 'spam', tags: ['scam'] } },
+    ]);
+    const res = await ensemble(model, 'Classify this email', {
+      schema,
+      samples: 2,
+      arrays: 'intersection',
+    });
+
+    expect(res.data).toEqual({ label: 'spam', tags: ['scam'] });
+    expect(res.agreement).toEqual({ label: 1, tags: 0.75 });
+  });
+
+  it('Should pick a sample with a judge', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { label: 'spam', tags: [] } },
+      { arguments: { label: 'ham', tags: [] } },
+      { arguments: { index: 2, reason: 'The email is from a colleague' } },
+    ]);
+    const res = await ensemble(model, 'Classify this email', {
+      schema,
+      samples: 2,
+      judge: true,
+    });
+
+    expect(res.data).toEqual({ label: 'ham', tags: [] });
+    expect(res.judge).toEqual({
+      index: 1,
+      reason: 'The email is from a colleague',
+    });
+    expect(res.agreement.label).toBe(0.5);
+    expect(model.requests[2].messages[0].content).toMatchSnapshot();
+  });
+
+  it('Should combine the samples that did not fail', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { label: 'spam', tags: [] } },
+      new Error('Rate limited'),
+      { arguments: { label: 'spam', tags: [] } },
+    ]);
+    const res = await ensemble(model, 'Classify this email', { schema });
+
+    expect(res.data).toEqual({ label: 'spam', tags: [] });
+    expect(res.samples).toHaveLength(2);
+    expect(res.errors).toEqual([new Error('Rate limited')]);
+  });
+});
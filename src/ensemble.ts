@@ -0,0 +1,244 @@
+import type { CompletionApi } from 'llm-api';
+import { isPlainObject, mean, omit, uniq, uniqBy } from 'lodash';
+import { z } from 'zod';
+
+import { completion } from './completion';
+import type { ModelChain } from './routing';
+import type { RequestOptions, Response } from './types';
+import { createUsageReport, UsageReport } from './usage';
+import { debug, mapWithConcurrency, stableStringify } from './utils';
+
+// union: keep every item that appears in any sample
+// intersection: keep the items that appear in every sample
+// vote: vote on the array as a whole, like any other value
+export type ArrayMergeStrategy = 'union' | 'intersection' | 'vote';
+
+export type EnsembleOptions<T extends z.ZodType> = Omit<
+  Partial<RequestOptions<T>>,
+  'schema'
+> & {
+  schema: T;
+
+  // number of completions to sample, make sure the model has a temperature above 0 so samples can differ
+  // default: 3
+  samples?: number;
+
+  // maximum number of samples in flight at the same time
+  // default: same as samples
+  concurrency?: number;
+
+  // how arrays are combined when voting per field
+  // default: 'union'
+  arrays?: ArrayMergeStrategy;
+
+  // pick the best sample with a judge model instead of voting per field, set to true to use the same model as judge
+  judge?: boolean | CompletionApi;
+};
+
+export type EnsembleResult<T extends z.ZodType> = {
+  // combined data of all samples
+  data: z.infer<T>;
+
+  // share of samples that agree with the combined data for every field, keyed by the path of the field
+  // arrays are scored by the average overlap of every sample with the combined array
+  agreement: Record<string, number>;
+
+  // lowest agreement of any field, use it to flag low confidence outputs
+  confidence: number;
+
+  // every sample that passed the schema
+  samples: Response<T>[];
+
+  // errors of samples that failed
+  errors: unknown[];
+
+  // sample picked by the judge, if a judge was used
+  judge?: { index: number; reason: string };
+
+  // usage of all samples and the judge combined
+  usageReport: UsageReport;
+};
+
+const Defaults = {
+  samples: 3,
+  arrays: 'union' as ArrayMergeStrategy,
+};
+
+const getKey = (value: unknown) => stableStringify(value) ?? 'undefined';
+
+// pick the most common value, ties go to the value that was seen first
+function vote(values: unknown[]): unknown {
+  const counts = new Map<string, { value: unknown; count: number }>();
+  for (const value of values) {
+    const key = getKey(value);
+    const entry = counts.get(key) ?? { value, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].reduce((best, entry) =>
+    entry.count > best.count ? entry : best,
+  ).value;
+}
+
+function mergeValues(values: unknown[], arrays: ArrayMergeStrategy): unknown {
+  if (values.every(isPlainObject)) {
+    const objects = values as Record<string, unknown>[];
+    const keys = uniq(objects.flatMap(Object.keys));
+    const merged: Record<string, unknown> = {};
+    for (const key of keys) {
+      const value = mergeValues(
+        objects.map((o) => o[key]),
+        arrays,
+      );
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  } else if (values.every(Array.isArray) && arrays !== 'vote') {
+    const lists = values as unknown[][];
+    return arrays === 'union'
+      ? uniqBy(lists.flat(), getKey)
+      : uniqBy(lists[0], getKey).filter((item) =>
+          lists.every((list) => list.some((i) => getKey(i) === getKey(item))),
+        );
+  }
+  return vote(values);
+}
+
+// jaccard similarity of two arrays, compared as sets
+function getOverlap(a: unknown[], b: unknown[]): number {
+  const keysA = new Set(a.map(getKey));
+  const keysB = new Set(b.map(getKey));
+  const union = new Set([...keysA, ...keysB]);
+  if (union.size === 0) {
+    return 1;
+  }
+  return [...keysA].filter((key) => keysB.has(key)).length / union.size;
+}
+
+function scoreAgreement(
+  values: unknown[],
+  result: unknown,
+  path: string[],
+  scores: Record<string, number>,
+) {
+  if (isPlainObject(result) && values.every(isPlainObject)) {
+    const objects = values as Record<string, unknown>[];
+    const keys = uniq([result as object, ...objects].flatMap(Object.keys));
+    for (const key of keys) {
+      scoreAgreement(
+        objects.map((o) => o[key]),
+        (result as Record<string, unknown>)[key],
+        [...path, key],
+        scores,
+      );
+    }
+  } else if (Array.isArray(result)) {
+    scores[path.join('.')] = mean(
+      values.map((v) => (Array.isArray(v) ? getOverlap(v, result) : 0)),
+    );
+  } else {
+    scores[path.join('.')] =
+      values.filter((v) => getKey(v) === getKey(result)).length / values.length;
+  }
+}
+
+const judgePrompt = (prompt: string, samples: unknown[]) =>
+  `The following answers were given to the same request. Pick the answer that follows the request best, and is most likely to be correct.\n\n<request>\n${prompt}\n</request>\n\n${samples
+    .map(
+      (sample, i) =>
+        `<answer_${i + 1}>\n${JSON.stringify(sample)}\n</answer_${i + 1}>`,
+    )
+    .join('\n')}`;
+
+// sample the same completion multiple times, and combine the samples by voting per field or with a judge
+export async function ensemble<T extends z.ZodType>(
+  model: ModelChain,
+  prompt: string | (() => string),
+  opt: EnsembleOptions<T>,
+): Promise<EnsembleResult<T>> {
+  const {
+    samples: sampleCount = Defaults.samples,
+    concurrency = sampleCount,
+    arrays = Defaults.arrays,
+    judge,
+    ...requestOpt
+  } = opt;
+  const message = typeof prompt === 'string' ? prompt : prompt();
+
+  // samples are never cached, or every sample would be the same
+  const settled = await mapWithConcurrency(
+    Array.from({ length: sampleCount }),
+    concurrency,
+    (): Promise<PromiseSettledResult<Response<T>>> =>
+      completion(model, message, omit(requestOpt, 'cache')).then(
+        (value) => ({ status: 'fulfilled', value }),
+        (reason) => ({ status: 'rejected', reason }),
+      ),
+  );
+  const samples = settled.flatMap((s) =>
+    s.status === 'fulfilled' ? [s.value] : [],
+  );
+  const errors = settled.flatMap((s) =>
+    s.status === 'rejected' ? [s.reason] : [],
+  );
+  if (samples.length === 0) {
+    throw errors[0];
+  }
+  errors.length > 0 &&
+    debug.log(`⚠️ ${errors.length} of ${sampleCount} samples failed`, errors);
+
+  // samples are combined on the json the model responded with, so schemas with transforms are only applied once to the combined json
+  const values = samples.map((s) => s.json);
+  let data: z.infer<T>;
+  let json: unknown;
+  let picked: EnsembleResult<T>['judge'];
+  const usageRequests = samples.flatMap((s) => s.usageReport.requests);
+
+  if (judge && samples.length > 1) {
+    const res = await completion(
+      judge === true ? model : judge,
+      judgePrompt(message, values),
+      {
+        schema: z.object({
+          index: z
+            .number()
+            .int()
+            .min(1)
+            .max(samples.length)
+            .describe('Number of the best answer'),
+          reason: z.string().describe('Why this answer is the best'),
+        }),
+        pricing: requestOpt.pricing,
+      },
+    );
+    usageRequests.push(...res.usageReport.requests);
+    picked = { index: res.data.index - 1, reason: res.data.reason };
+    data = samples[picked.index].data;
+    json = values[picked.index];
+  } else {
+    // merged fields can break constraints across fields, fall back to the most common sample if it does
+    const merged = mergeValues(values, arrays);
+    const res = await opt.schema.safeParseAsync(merged);
+    if (res.success) {
+      data = res.data;
+      json = merged;
+    } else {
+      json = vote(values);
+      data = samples[values.indexOf(json)].data;
+    }
+  }
+
+  const agreement: Record<string, number> = {};
+  scoreAgreement(values, json, [], agreement);
+  return {
+    data,
+    agreement,
+    confidence: Math.min(...Object.values(agreement), 1),
+    samples,
+    errors,
+    judge: picked,
+    usageReport: createUsageReport(usageRequests),
+  };
+}
@@ -0,0 +1,135 @@
+import type { ChatRequestMessage, ChatResponse, TokenError } from 'llm-api';
+import type { z } from 'zod';
+
+import type { HealAttempt, ToolCallStep } from './types';
+import { createUsageReport, UsageReport } from './usage';
+
+export type CompletionErrorDetails = {
+  // messages sent in the request that produced the failing response
+  messages: ChatRequestMessage[];
+
+  // raw response from the model
+  response?: ChatResponse;
+
+  // json extracted from the response, if any could be parsed
+  json?: any;
+
+  // issues found when validating the json against the schema
+  issues?: z.ZodIssue[];
+
+  // usage of every request that was sent before the error, including failed auto heal rounds
+  usageReport?: UsageReport;
+};
+
+// base class for all errors thrown when a completion could not produce valid data
+export class CompletionError extends Error {
+  messages: ChatRequestMessage[];
+  response?: ChatResponse;
+  json?: any;
+  issues: z.ZodIssue[];
+  usageReport: UsageReport;
+
+  constructor(
+    message: string,
+    details: CompletionErrorDetails,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = 'CompletionError';
+    this.messages = details.messages;
+    this.response = details.response;
+    this.json = details.json;
+    this.issues = details.issues ?? [];
+    this.usageReport = details.usageReport ?? createUsageReport([]);
+  }
+}
+
+// thrown when the response json does not pass the schema
+export class SchemaValidationError extends CompletionError {
+  constructor(message: string, details: CompletionErrorDetails) {
+    super(message, details);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+// thrown when the model responded with text instead of calling the output function
+export class FunctionNotCalledError extends CompletionError {
+  constructor(message: string, details: CompletionErrorDetails) {
+    super(message, details);
+    this.name = 'FunctionNotCalledError';
+  }
+}
+
+// thrown when no json could be extracted from the response
+export class JsonParseError extends CompletionError {
+  constructor(message: string, details: CompletionErrorDetails) {
+    super(message, details);
+    this.name = 'JsonParseError';
+  }
+}
+
+// thrown when the model output could not be healed within the configured number of attempts
+export class AutoHealError extends CompletionError {
+  attempts: HealAttempt[];
+
+  constructor(
+    message: string,
+    details: CompletionErrorDetails & { attempts: HealAttempt[] },
+  ) {
+    super(message, details);
+    this.name = 'AutoHealError';
+    this.attempts = details.attempts;
+  }
+}
+
+// thrown when the prompt is still too long after slicing away everything that can be sliced
+export class AutoSliceError extends CompletionError {
+  overflowTokens: number;
+
+  constructor(
+    message: string,
+    details: CompletionErrorDetails & { cause: TokenError },
+  ) {
+    super(message, details, { cause: details.cause });
+    this.name = 'AutoSliceError';
+    this.overflowTokens = details.cause.overflowTokens;
+  }
+}
+
+// thrown when the model is still calling tools after the maximum number of steps
+export class MaxStepsError extends CompletionError {
+  steps: ToolCallStep[];
+
+  constructor(
+    message: string,
+    details: CompletionErrorDetails & { steps: ToolCallStep[] },
+  ) {
+    super(message, details);
+    this.name = 'MaxStepsError';
+    this.steps = details.steps;
+  }
+}
+
+// thrown when a cassette in replay mode has no recorded response for a request
+export class CassetteMissError extends Error {
+  key: string;
+  messages: ChatRequestMessage[];
+
+  constructor(message: string, key: string, messages: ChatRequestMessage[]) {
+    super(message);
+    this.name = 'CassetteMissError';
+    this.key = key;
+    this.messages = messages;
+  }
+}
+
+// thrown when the input of a prompt built with `definePrompt` does not pass the input schema
+export class PromptInputError extends Error {
+  issues: z.ZodIssue[];
+
+  constructor(message: string, issues: z.ZodIssue[]) {
+    super(message);
+    this.name = 'PromptInputError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+import { extract } from './extract';
+import { MockCompletionApi } from './mock';
+import { RecursiveCharacterTextSplitter } from './text-splitter';
+
+const schema = z.object({ names: z.array(z.string()) });
+const text = 'Alice signed the contract.\n\nBob and Carol witnessed it.';
+const splitter = new RecursiveCharacterTextSplitter({
+  chunkSize: 30,
+  chunkOverlap: 0,
+});
+
+// respond with every capitalized word in the chunk
+const extractNames = (messages: any[]) => ({
+  arguments: {
+    names: messages[0].content
+      .match(/<text>\n(.*)\n<\/text>/s)[1]
+      .match(/[A-Z]\w+/g),
+  },
+});
+
+describe('extract', () => {
+  it('Should run the schema on every chunk and merge with the reducer', async () => {
+    const model = new MockCompletionApi([extractNames, extractNames]);
+    const res = await extract(model, text, {
+      schema,
+      splitter,
+      prompt: 'Extract the names of all people',
+      reduce: (results) => ({ names: results.flatMap((r) => r.names) }),
+    });
+
+    expect(res.data).toEqual({ names: ['Alice', 'Bob', 'Carol'] });
+    expect(res.chunks.map((c) => c.document.metadata)).toEqual([
+      { chunkIndex: 0, start: 0, end: 26 },
+      { chunkIndex: 1, start: 28, end: 55 },
+    ]);
+  });
+
+  it('Should combine results with the model when no reducer is set', async () => {
+    const model = new MockCompletionApi([
+      extractNames,
+      extractNames,
+      { arguments: { names: ['Alice', 'Bob', 'Carol'] } },
+    ]);
+    const res = await extract(model, text, {
+      schema,
+      splitter,
+      prompt: 'Extract the names of all people',
+    });
+
+    expect(res.data).toEqual({ names: ['Alice', 'Bob', 'Carol'] });
+    expect(model.requests[2].messages[0].content).toMatchSnapshot();
+  });
+
+  it('Should stop sending requests for the remaining chunks after a chunk failed', async () => {
+    const model = new MockCompletionApi([
+      new Error('Crashed'),
+      extractNames,
+      extractNames,
+    ]);
+    const error = await extract(model, `${text}\n\nDave read it out loud.`, {
+      schema,
+      splitter,
+      prompt: 'Extract the names of all people',
+      concurrency: 2,
+      reduce: (results) => ({ names: results.flatMap((r) => r.names) }),
+    }).catch((e) => e);
+
+    expect(error).toEqual(new Error('Crashed'));
+    // let the chunk that was in flight finish
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(model.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,137 @@
+import type { CompletionApi } from 'llm-api';
+import { chunk } from 'lodash';
+import { z } from 'zod';
+
+import { completion } from './completion';
+import {
+  ChunkMetadata,
+  Document,
+  RecursiveCharacterTextSplitter,
+  TextSplitter,
+} from './text-splitter';
+import type { RequestOptions, Response } from './types';
+import { mapWithConcurrency, MaybePromise } from './utils';
+
+export type ExtractOptions<T extends z.ZodType> = Omit<
+  Partial<RequestOptions<T>>,
+  'schema'
+> & {
+  schema: T;
+
+  // instructions sent together with every chunk, or a function to build the prompt for a chunk
+  prompt: string | ((document: Document<ChunkMetadata>) => string);
+
+  // splitter used to chunk the input text
+  // default: RecursiveCharacterTextSplitter with a chunk size of 4000 characters
+  splitter?: TextSplitter;
+
+  // maximum number of requests in flight at the same time
+  // default: 4
+  concurrency?: number;
+
+  // merge the results of every chunk into a single result, if not set the results are combined by the model
+  reduce?: (
+    results: z.infer<T>[],
+    documents: Document<ChunkMetadata>[],
+  ) => MaybePromise<z.infer<T>>;
+
+  // prompt used to ask the model to combine results
+  combinePrompt?: (results: z.infer<T>[]) => string;
+
+  // maximum number of results to combine in a single request, larger result sets are combined in multiple rounds
+  // default: 10
+  combineBatchSize?: number;
+};
+
+export type ExtractChunkResult<T extends z.ZodType> = {
+  document: Document<ChunkMetadata>;
+  data: z.infer<T>;
+  response: Response<T>;
+};
+
+export type ExtractResult<T extends z.ZodType> = {
+  // merged data from all chunks
+  data: z.infer<T>;
+
+  // data extracted from each chunk, in the same order as the chunks
+  chunks: ExtractChunkResult<T>[];
+};
+
+const Defaults = {
+  concurrency: 4,
+  combineBatchSize: 10,
+};
+
+const defaultPrompt = (instructions: string, document: Document) =>
+  `${instructions}\n\nOnly use the following text, which is part ${
+    document.metadata.chunkIndex + 1
+  } of a longer document:\n<text>\n${document.pageContent}\n</text>`;
+
+const defaultCombinePrompt = (results: any[]) =>
+  `The following JSON results were extracted from different parts of the same document. Combine them into a single result that follows the same schema, merge duplicate entries and keep all unique information.\n\n${results
+    .map(
+      (result, i) =>
+        `<result_${i + 1}>\n${JSON.stringify(result)}\n</result_${i + 1}>`,
+    )
+    .join('\n')}`;
+
+// extract structured data from text of any length, by running the schema on every chunk and merging the results
+export async function extract<T extends z.ZodType>(
+  model: CompletionApi,
+  text: string,
+  opt: ExtractOptions<T>,
+): Promise<ExtractResult<T>> {
+  const {
+    prompt,
+    splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 4000,
+      chunkOverlap: 200,
+    }),
+    concurrency = Defaults.concurrency,
+    reduce,
+    combinePrompt = defaultCombinePrompt,
+    combineBatchSize = Defaults.combineBatchSize,
+    ...requestOpt
+  } = opt;
+
+  const documents = splitter.createDocumentsWithMetadata([text]);
+  if (documents.length === 0) {
+    throw new Error('No text to extract from');
+  }
+
+  const chunks = await mapWithConcurrency(
+    documents,
+    concurrency,
+    async (document): Promise<ExtractChunkResult<T>> => {
+      const response = await completion(
+        model,
+        typeof prompt === 'string'
+          ? defaultPrompt(prompt, document)
+          : prompt(document),
+        requestOpt,
+      );
+      return { document, data: response.data, response };
+    },
+  );
+
+  const results = chunks.map((c) => c.data);
+  if (reduce) {
+    return { data: await reduce(results, documents), chunks };
+  }
+
+  // combine results in batches, and keep combining the combined results until only one is left
+  let combined = results;
+  while (combined.length > 1) {
+    combined = await mapWithConcurrency(
+      chunk(combined, Math.max(2, combineBatchSize)),
+      concurrency,
+      async (batch) =>
+        batch.length === 1
+          ? batch[0]
+          : (
+              await completion(model, combinePrompt(batch), requestOpt)
+            ).data,
+    );
+  }
+  return { data: combined[0], chunks };
+}
@@ -1,3 +1,20 @@
+export * from './attachments';
+export * from './batch';
+export * from './cache';
+export * from './capabilities';
+export * from './cassette';
 export * from './completion';
+export * from './conversation';
+export * from './ensemble';
+export * from './errors';
+export * from './extract';
+export * from './mock';
+export * from './prompt';
+export * from './routing';
+export * from './stream';
 export * from './text-splitter';
+export * from './tokenizer';
+export * from './tools';
+export * from './tracing';
 export * from './types';
+export * from './usage';
@@ -0,0 +1,218 @@
+import {
+  ChatRequestMessage,
+  ChatResponse,
+  ModelConfig,
+  ModelRequestOptions,
+  TokenError,
+} from 'llm-api';
+import type { JsonValue } from 'type-fest';
+
+import { getMessageTokens } from './attachments';
+import type {
+  CompletionApiWithCapabilities,
+  ModelCapabilities,
+} from './capabilities';
+import { MinimumResponseTokens } from './config';
+import { sleep } from './utils';
+
+// scripted response returned by the mock, in the order they were queued
+export type MockResponse =
+  // plain text response
+  | string
+  | { content: string }
+  // function call response
+  | { arguments: JsonValue; name?: string }
+  // thrown instead of returning a response, e.g. a `TokenError`
+  | Error
+  // build the response from the request
+  | ((
+      messages: ChatRequestMessage[],
+      opt: ModelRequestOptions,
+    ) => Exclude<MockResponse, Function>);
+
+export type MockRequest = {
+  messages: ChatRequestMessage[];
+  opt: ModelRequestOptions;
+};
+
+export type MockCompletionApiOptions = {
+  // count the number of tokens in a piece of text
+  // default: 1 token per character
+  tokenizer?: (text: string) => number;
+
+  // split streamed text into chunks of this many characters
+  // default: 8
+  streamChunkSize?: number;
+
+  // capabilities the mock declares, e.g. set `functionCalling` to false to test the json prompt path
+  // default: function calling, response prefill and stop sequences
+  capabilities?: Partial<ModelCapabilities>;
+};
+
+// deterministic fake of a model for unit tests, responds with the queued responses and records every request
+export class MockCompletionApi implements CompletionApiWithCapabilities {
+  modelConfig: ModelConfig;
+  capabilities: Partial<ModelCapabilities>;
+  requests: MockRequest[] = [];
+
+  private queue: MockResponse[];
+  private tokenizer: (text: string) => number;
+  private streamChunkSize: number;
+  private toolCallCount = 0;
+
+  constructor(
+    responses: MockResponse[] = [],
+    modelConfig: ModelConfig = {},
+    options: MockCompletionApiOptions = {},
+  ) {
+    this.queue = [...responses];
+    this.modelConfig = modelConfig;
+    this.tokenizer = options.tokenizer ?? ((text) => text.length);
+    this.streamChunkSize = options.streamChunkSize ?? 8;
+    this.capabilities = {
+      functionCalling: true,
+      responsePrefill: true,
+      stopSequences: true,
+      ...options.capabilities,
+    };
+  }
+
+  // add more responses to the end of the queue
+  enqueue(...responses: MockResponse[]): this {
+    this.queue.push(...responses);
+    return this;
+  }
+
+  // number of queued responses that have not been used yet
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  getTokensFromPrompt(promptOrMessages: string[]): number {
+    return promptOrMessages.reduce(
+      (total, text) => total + this.tokenizer(text),
+      0,
+    );
+  }
+
+  async chatCompletion(
+    messages: ChatRequestMessage[],
+    opt: ModelRequestOptions = {},
+  ): Promise<ChatResponse> {
+    this.requests.push({ messages, opt });
+
+    // mirror the token check done by `llm-api` when a context size is set
+    if (this.modelConfig.contextSize) {
+      const systemMessage =
+        typeof opt.systemMessage === 'function'
+          ? opt.systemMessage()
+          : opt.systemMessage;
+      const messageTokens =
+        this.getTokensFromPrompt(systemMessage ? [systemMessage] : []) +
+        getMessageTokens(this, messages);
+      const maxPromptTokens =
+        this.modelConfig.contextSize -
+        (opt.minimumResponseTokens ?? MinimumResponseTokens);
+      if (messageTokens > maxPromptTokens) {
+        throw new TokenError(
+          'Prompt too big, not enough tokens to meet minimum response',
+          messageTokens - maxPromptTokens,
+        );
+      }
+    }
+
+    const next = this.queue.shift();
+    if (next === undefined) {
+      throw new Error('MockCompletionApi has no more responses queued');
+    }
+
+    const scripted = typeof next === 'function' ? next(messages, opt) : next;
+    if (scripted instanceof Error) {
+      throw scripted;
+    }
+
+    const respond = (
+      message: string | ChatRequestMessage,
+      respondOpt?: ModelRequestOptions,
+    ) =>
+      this.chatCompletion(
+        [
+          ...messages,
+          response.message,
+          typeof message === 'string'
+            ? response.toolCallId
+              ? {
+                  role: 'tool',
+                  toolCallId: response.toolCallId,
+                  content: message,
+                }
+              : { role: 'user', content: message }
+            : message,
+        ],
+        respondOpt ?? opt,
+      );
+    const promptTokens = getMessageTokens(this, messages);
+
+    let response: ChatResponse;
+    if (typeof scripted === 'object' && 'arguments' in scripted) {
+      const id = `call_${++this.toolCallCount}`;
+      const name =
+        scripted.name ?? opt.callFunction ?? opt.functions?.[0]?.name ?? '';
+      const args = JSON.stringify(scripted.arguments);
+      const completionTokens = this.tokenizer(args);
+      response = {
+        message: {
+          role: 'assistant',
+          content: '',
+          toolCall: {
+            id,
+            type: 'function',
+            function: { name, arguments: args },
+          },
+        },
+        toolCallId: id,
+        name,
+        arguments: scripted.arguments,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        respond,
+      };
+    } else {
+      // like the anthropic api, the response prefix is part of the returned content
+      const text = typeof scripted === 'string' ? scripted : scripted.content;
+      const content = (opt.responsePrefix ?? '') + text;
+      if (this.modelConfig.stream) {
+        opt.responsePrefix && opt.events?.emit('data', opt.responsePrefix);
+        for (let i = 0; i < text.length; i += this.streamChunkSize) {
+          // yield to the event loop between chunks, so listeners can process partial outputs
+          await sleep(0);
+          opt.events?.emit('data', text.slice(i, i + this.streamChunkSize));
+        }
+      }
+
+      const completionTokens = this.tokenizer(text);
+      response = {
+        message: { role: 'assistant', content },
+        content,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        respond,
+      };
+    }
+
+    return response;
+  }
+
+  textCompletion(
+    prompt: string,
+    opt?: ModelRequestOptions,
+  ): Promise<ChatResponse> {
+    return this.chatCompletion([{ role: 'user', content: prompt }], opt);
+  }
+}
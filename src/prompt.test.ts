@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+import { PromptInputError } from './errors';
+import { MockCompletionApi } from './mock';
+import { definePrompt } from './prompt';
+
+const summarize = definePrompt({
+  input: z.object({
+    text: z.string().min(1),
+    language: z.string().default('English'),
+  }),
+  output: z.object({ summary: z.string() }),
+  systemMessage: ({ language }) => `You write summaries in ${language}.`,
+  template: ({ text }) => `Summarize the following text:\n\n${text}`,
+  examples: [
+    {
+      input: { text: 'The cat sat on the mat all day.' },
+      output: { summary: 'A lazy cat.' },
+    },
+  ],
+});
+
+describe('definePrompt', () => {
+  it('Should render the examples and the template from the input', async () => {
+    const rendered = await summarize.render({
+      text: 'Zod is a schema validation library.',
+      language: 'French',
+    });
+
+    expect(rendered.systemMessage).toBe('You write summaries in French.');
+    expect(rendered.examples).toEqual([
+      {
+        prompt:
+          'Summarize the following text:\n\nThe cat sat on the mat all day.',
+        output: { summary: 'A lazy cat.' },
+      },
+    ]);
+    expect(rendered.messages).toEqual([
+      {
+        role: 'user',
+        content:
+          'Summarize the following text:\n\nZod is a schema validation library.',
+      },
+    ]);
+  });
+
+  it('Should send the rendered prompt with the output schema', async () => {
+    const model = new MockCompletionApi([
+      { arguments: { summary: 'A validation library.' } },
+    ]);
+    const res = await summarize(
+      model,
+      { text: 'Zod is a schema validation library.' },
+      { functionName: 'summarize' },
+    );
+
+    expect(res.data).toEqual({ summary: 'A validation library.' });
+    // examples are sent as function calls, the same way the model is asked to respond
+    expect(model.requests[0].messages).toMatchSnapshot();
+    expect(model.requests[0].opt).toMatchObject({
+      systemMessage: 'You write summaries in English.',
+      callFunction: 'summarize',
+    });
+  });
+
+  it('Should throw a PromptInputError without sending a request when the input is invalid', async () => {
+    const model = new MockCompletionApi();
+    const error = await summarize(model, { text: '' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PromptInputError);
+    expect(error.issues[0].path).toEqual(['text']);
+    expect(model.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,120 @@
+import type { ChatRequestMessage } from 'llm-api';
+import { z } from 'zod';
+
+import { chat } from './completion';
+import { PromptInputError } from './errors';
+import type { ModelChain } from './routing';
+import { formatIssues } from './schema';
+import type { PromptExampleTurn, RequestOptions, Response } from './types';
+
+export type PromptExample<I extends z.ZodType, O extends z.ZodType> = {
+  input: z.input<I>;
+  output: z.infer<O>;
+};
+
+export type PromptOptions<O extends z.ZodType> = Omit<
+  Partial<RequestOptions<O>>,
+  'schema' | 'systemMessage' | 'messageHistory' | 'examples' | 'promptExamples'
+>;
+
+export type PromptDefinition<
+  I extends z.ZodType,
+  O extends z.ZodType,
+> = PromptOptions<O> & {
+  // schema of the input, inputs are validated before the prompt is rendered
+  input: I;
+
+  // schema of the output, sent to the model the same way as the `schema` option of `completion`
+  output: O;
+
+  // render the user message from the validated input
+  template: (input: z.infer<I>) => string;
+
+  // system message, or a function to render it from the validated input
+  systemMessage?: string | ((input: z.infer<I>) => string);
+
+  // few shot examples, sent before the user message as pairs of rendered inputs and outputs in the format of the output strategy
+  examples?: PromptExample<I, O>[];
+};
+
+export type RenderedPrompt<O extends z.ZodType = z.ZodType> = {
+  systemMessage?: string;
+
+  // examples with their rendered inputs, as they are passed to `chat` in the `promptExamples` option
+  examples: PromptExampleTurn<O>[];
+
+  // user message, as it is passed to `chat`
+  messages: ChatRequestMessage[];
+};
+
+export type Prompt<I extends z.ZodType, O extends z.ZodType> = {
+  // validate the input, render the prompt and send it to the model
+  (model: ModelChain, input: z.input<I>, opt?: PromptOptions<O>): Promise<
+    Response<O>
+  >;
+
+  // validate the input and render the prompt without sending it, e.g. to inspect or snapshot the messages
+  render: (input: z.input<I>) => Promise<RenderedPrompt<O>>;
+
+  input: I;
+  output: O;
+};
+
+async function parseInput<I extends z.ZodType>(
+  schema: I,
+  input: z.input<I>,
+): Promise<z.infer<I>> {
+  const res = await schema.safeParseAsync(input);
+  if (!res.success) {
+    throw new PromptInputError(
+      formatIssues('Prompt input is invalid.', res.error.issues),
+      res.error.issues,
+    );
+  }
+  return res.data;
+}
+
+// build a typed prompt function, inputs are validated with the input schema and outputs with the output schema
+export function definePrompt<I extends z.ZodType, O extends z.ZodType>(
+  definition: PromptDefinition<I, O>,
+): Prompt<I, O> {
+  const { input, output, template, systemMessage, examples, ...defaultOpt } =
+    definition;
+
+  const render = async (raw: z.input<I>): Promise<RenderedPrompt<O>> => {
+    const data = await parseInput(input, raw);
+    const renderedExamples: PromptExampleTurn<O>[] = [];
+    for (const example of examples ?? []) {
+      renderedExamples.push({
+        prompt: template(await parseInput(input, example.input)),
+        output: example.output,
+      });
+    }
+
+    return {
+      systemMessage:
+        typeof systemMessage === 'function'
+          ? systemMessage(data)
+          : systemMessage,
+      examples: renderedExamples,
+      messages: [{ role: 'user', content: template(data) }],
+    };
+  };
+
+  const prompt = async (
+    model: ModelChain,
+    raw: z.input<I>,
+    opt?: PromptOptions<O>,
+  ): Promise<Response<O>> => {
+    const rendered = await render(raw);
+    return chat(model, rendered.messages, {
+      ...defaultOpt,
+      ...opt,
+      schema: output,
+      systemMessage: rendered.systemMessage,
+      promptExamples: rendered.examples,
+    });
+  };
+
+  return Object.assign(prompt, { render, input, output });
+}
@@ -0,0 +1,54 @@
+import type { ChatRequestMessage, ChatResponse, CompletionApi } from 'llm-api';
+
+import type { TraceSpan } from './tracing';
+import type { ModelRequestOptionsWithFormat, RequestOptions } from './types';
+import { getRequestUsage, RequestKind, RequestUsage } from './usage';
+
+type SendRequestOptions = Pick<
+  Partial<RequestOptions<any>>,
+  'onRequest' | 'onResponse' | 'tracer' | 'pricing'
+>;
+
+// every request to the model of `chat` and `runTools` goes through here, so hooks, events and spans are the same for both
+// a `request` event is emitted first, so stream listeners know a new response is starting
+export async function sendRequest(
+  model: CompletionApi,
+  messages: ChatRequestMessage[],
+  kind: RequestKind,
+  requestOpt: ModelRequestOptionsWithFormat,
+  opt: SendRequestOptions,
+  span: TraceSpan | undefined,
+): Promise<{ response: ChatResponse; usage: RequestUsage }> {
+  requestOpt.events?.emit('request', messages);
+  opt.onRequest?.({ messages, kind });
+  const requestSpan = opt.tracer?.startSpan(
+    'zod-gpt.request',
+    {
+      'gen_ai.request.model': model.modelConfig.model,
+      'zod_gpt.request.kind': kind,
+    },
+    span,
+  );
+
+  const start = Date.now();
+  let response: ChatResponse;
+  try {
+    response = await model.chatCompletion(messages, requestOpt);
+  } catch (e) {
+    requestSpan?.recordException(e);
+    requestSpan?.end();
+    throw e;
+  }
+  const latency = Date.now() - start;
+
+  const usage = getRequestUsage(model, kind, response?.usage, opt.pricing);
+  requestSpan?.setAttributes({
+    'zod_gpt.latency_ms': latency,
+    'gen_ai.usage.input_tokens': usage.usage?.promptTokens,
+    'gen_ai.usage.output_tokens': usage.usage?.completionTokens,
+    'zod_gpt.cost': usage.cost,
+  });
+  requestSpan?.end();
+  opt.onResponse?.({ messages, kind, response, latency });
+  return { response, usage };
+}
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+
+import { completion } from './completion';
+import { SchemaValidationError } from './errors';
+import { MockCompletionApi } from './mock';
+
+const schema = z.object({ name: z.string() });
+
+describe('fallback chains', () => {
+  it('Should fall back to the next model on provider errors and stay on it', async () => {
+    const primary = new MockCompletionApi([new Error('Service unavailable')], {
+      model: 'primary',
+    });
+    const secondary = new MockCompletionApi(
+      [{ arguments: { name: 'Alice' } }, { arguments: { name: 'Bob' } }],
+      { model: 'secondary' },
+    );
+    const onFallback = jest.fn();
+
+    const res = await completion([primary, secondary], 'Pick a name', {
+      schema,
+      onFallback,
+    });
+    expect(res.data).toEqual({ name: 'Alice' });
+    expect(res.model).toBe(secondary);
+    expect(onFallback).toHaveBeenCalledWith({
+      error: new Error('Service unavailable'),
+      model: primary,
+      next: secondary,
+    });
+
+    const next = await res.respond('Pick another name');
+    expect(next.data).toEqual({ name: 'Bob' });
+    expect(next.model).toBe(secondary);
+    expect(primary.requests).toHaveLength(1);
+  });
+
+  it('Should fall back when auto heal is exhausted, using the strategy of the next model', async () => {
+    const primary = new MockCompletionApi([
+      { arguments: { name: 1 } },
+      { arguments: { name: 2 } },
+    ]);
+    const secondary = new MockCompletionApi(
+      ['{ "name": "Alice" }'],
+      {},
+      {
+        capabilities: { functionCalling: false, responsePrefill: false },
+      },
+    );
+
+    const res = await completion([primary, secondary], 'Pick a name', {
+      schema,
+    });
+    expect(res.data).toEqual({ name: 'Alice' });
+    expect(primary.requests).toHaveLength(2);
+    // the failed requests of the primary model are part of the usage
+    expect(res.usageReport.requests.map((r) => r.kind)).toEqual([
+      'request',
+      'heal',
+      'request',
+    ]);
+    expect(secondary.requests[0].opt.functions).toBeUndefined();
+    expect(secondary.requests[0].opt.systemMessage).toContain('<json_schema>');
+  });
+
+  it('Should fall back to a larger model when the context is too small', async () => {
+    const small = new MockCompletionApi([], { contextSize: 210 });
+    const large = new MockCompletionApi(['Done']);
+
+    const res = await completion([small, large], 'x'.repeat(20));
+    expect(res.data).toBe('Done');
+    expect(res.model).toBe(large);
+  });
+
+  it('Should send the request to the models picked by a router', async () => {
+    const fast = new MockCompletionApi(['Short answer']);
+    const smart = new MockCompletionApi(['Long answer']);
+    const router = jest.fn((messages) =>
+      messages[messages.length - 1].content.length > 10 ? [smart, fast] : fast,
+    );
+
+    const res = await completion(router, 'Summarize this long document');
+    expect(res.data).toBe('Long answer');
+    expect(router).toHaveBeenCalledWith([
+      { role: 'user', content: 'Summarize this long document' },
+    ]);
+    expect((await completion(router, 'Hi')).data).toBe('Short answer');
+  });
+
+  it('Should throw errors that should not fall back', async () => {
+    const primary = new MockCompletionApi([{ arguments: { name: 1 } }]);
+    const secondary = new MockCompletionApi([{ arguments: { name: 'Alice' } }]);
+
+    await expect(
+      completion([primary, secondary], 'Pick a name', {
+        schema,
+        autoHeal: false,
+      }),
+    ).rejects.toThrow(SchemaValidationError);
+
+    const shouldFallback = jest.fn(() => false);
+    await expect(
+      completion(
+        [new MockCompletionApi([new Error('Bad request')]), secondary],
+        'Pick a name',
+        { schema, shouldFallback },
+      ),
+    ).rejects.toThrow('Bad request');
+    expect(shouldFallback).toHaveBeenCalledTimes(1);
+    expect(secondary.requests).toHaveLength(0);
+  });
+});
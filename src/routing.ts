@@ -0,0 +1,41 @@
+import { TokenError } from 'llm-api';
+import type { ChatRequestMessage, CompletionApi } from 'llm-api';
+
+import {
+  AutoHealError,
+  AutoSliceError,
+  CassetteMissError,
+  CompletionError,
+} from './errors';
+
+// pick the models to send a request to, based on the messages of the request
+// return a list to fall back to the next model when a model fails
+export type ModelRouter = (
+  messages: ChatRequestMessage[],
+) => CompletionApi | CompletionApi[] | Promise<CompletionApi | CompletionApi[]>;
+
+// a single model, an ordered list of models to fall back on, or a router
+export type ModelChain = CompletionApi | CompletionApi[] | ModelRouter;
+
+export async function resolveModels(
+  model: ModelChain,
+  messages: ChatRequestMessage[],
+): Promise<CompletionApi[]> {
+  const resolved = typeof model === 'function' ? await model(messages) : model;
+  const models = Array.isArray(resolved) ? resolved : [resolved];
+  if (models.length === 0) {
+    throw new Error('No model to send the request to');
+  }
+  return models;
+}
+
+// fall back on errors that another model could avoid: provider errors and timeouts, a context that is too small, or an output that could not be healed
+// outputs that failed without auto heal are thrown right away since auto heal was turned off on purpose, and so are cassette misses
+export function isFallbackError(error: unknown): boolean {
+  return (
+    error instanceof TokenError ||
+    error instanceof AutoHealError ||
+    error instanceof AutoSliceError ||
+    !(error instanceof CompletionError || error instanceof CassetteMissError)
+  );
+}
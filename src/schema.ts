@@ -0,0 +1,258 @@
+import { z } from 'zod';
+
+import type { SchemaFormat, ValidationIssue } from './types';
+
+// functions and the json prompt only accept object parameters, so any other root schema is wrapped in an envelope object
+export const EnvelopeKey = 'data';
+
+export type OutputSchema = {
+  // object schema that is sent to the model
+  schema: z.AnyZodObject;
+
+  // if the root schema was wrapped in an envelope, and needs to be unwrapped before returning data
+  wrapped: boolean;
+};
+
+export function isObjectSchema(schema: z.ZodType): schema is z.AnyZodObject {
+  return (schema._def as any).typeName === z.ZodFirstPartyTypeKind.ZodObject;
+}
+
+export function getOutputSchema(schema: z.ZodType): OutputSchema {
+  return isObjectSchema(schema)
+    ? { schema, wrapped: false }
+    : { schema: z.object({ [EnvelopeKey]: schema }), wrapped: true };
+}
+
+export function unwrapOutput(output: OutputSchema, data: any): any {
+  return output.wrapped ? data?.[EnvelopeKey] : data;
+}
+
+// turn issues returned by a custom validation into zod issues, so they can be healed the same way as schema issues
+export function toZodIssues(
+  output: OutputSchema,
+  issues: ValidationIssue[],
+): z.ZodIssue[] {
+  return issues.map((issue) => {
+    const { path = [], message } =
+      typeof issue === 'string' ? { message: issue } : issue;
+    return {
+      code: z.ZodIssueCode.custom,
+      path: output.wrapped ? [EnvelopeKey, ...path] : path,
+      message,
+    };
+  });
+}
+
+// append every zod issue to the message, so the model knows exactly what to fix
+export function formatIssues(message: string, issues: z.ZodIssue[]): string {
+  return issues.reduce(
+    (prev, issue) =>
+      issue.path && issue.path.length > 0
+        ? `${prev}\nThe issue is at path ${issue.path.join('.')}: ${
+            issue.message
+          }.`
+        : `${prev}\nThe issue is: ${issue.message}.`,
+    message,
+  );
+}
+
+function toNullableJsonSchema(schema: any): any {
+  if (typeof schema.type === 'string') {
+    return {
+      ...schema,
+      type: [schema.type, 'null'],
+      ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+    };
+  } else if (Array.isArray(schema.type)) {
+    return schema.type.includes('null')
+      ? schema
+      : { ...schema, type: [...schema.type, 'null'] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+// strict schemas require every property, so optional properties are made nullable instead, and no additional properties are allowed
+export function toStrictJsonSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  // defaults are not supported in strict mode, optional fields with defaults are filled in when the data is parsed
+  const { default: _, ...strict } = schema;
+  if (strict.properties) {
+    const required: string[] = strict.required ?? [];
+    strict.properties = Object.fromEntries(
+      Object.entries(strict.properties).map(([key, value]) => [
+        key,
+        required.includes(key)
+          ? toStrictJsonSchema(value)
+          : toNullableJsonSchema(toStrictJsonSchema(value)),
+      ]),
+    );
+    strict.required = Object.keys(strict.properties);
+    strict.additionalProperties = false;
+  }
+  if (strict.items) {
+    strict.items = Array.isArray(strict.items)
+      ? strict.items.map(toStrictJsonSchema)
+      : toStrictJsonSchema(strict.items);
+  }
+  for (const key of ['anyOf', 'oneOf', 'allOf']) {
+    if (Array.isArray(strict[key])) {
+      strict[key] = strict[key].map(toStrictJsonSchema);
+    }
+  }
+  if (strict.definitions) {
+    strict.definitions = Object.fromEntries(
+      Object.entries(strict.definitions).map(([key, value]) => [
+        key,
+        toStrictJsonSchema(value),
+      ]),
+    );
+  }
+  return strict;
+}
+
+const DefinitionPrefix = '#/definitions/';
+const RootTypeName = 'Output';
+const IdentifierPattern = /^[A-Za-z_$][\w$]*$/;
+
+function toTypeScript(schema: any, indent: string): string {
+  if (!schema || typeof schema !== 'object') {
+    return 'unknown';
+  }
+
+  if (typeof schema.$ref === 'string') {
+    return schema.$ref.startsWith(DefinitionPrefix)
+      ? schema.$ref.slice(DefinitionPrefix.length)
+      : RootTypeName;
+  } else if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  } else if (Array.isArray(schema.enum)) {
+    return schema.enum.map((v: unknown) => JSON.stringify(v)).join(' | ');
+  } else if (Array.isArray(schema.anyOf ?? schema.oneOf)) {
+    return (schema.anyOf ?? schema.oneOf)
+      .map((s: any) => toTypeScript(s, indent))
+      .join(' | ');
+  } else if (Array.isArray(schema.allOf)) {
+    return schema.allOf.map((s: any) => toTypeScript(s, indent)).join(' & ');
+  } else if (Array.isArray(schema.type)) {
+    return schema.type
+      .map((type: string) => toTypeScript({ ...schema, type }, indent))
+      .join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+    case 'boolean':
+    case 'null':
+      return schema.type;
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'array': {
+      if (Array.isArray(schema.items)) {
+        return `[${schema.items
+          .map((s: any) => toTypeScript(s, indent))
+          .join(', ')}]`;
+      }
+      const item = toTypeScript(schema.items, indent);
+      return /[|&]/.test(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object': {
+      if (!schema.properties) {
+        return typeof schema.additionalProperties === 'object'
+          ? `Record<string, ${toTypeScript(
+              schema.additionalProperties,
+              indent,
+            )}>`
+          : 'Record<string, unknown>';
+      }
+      const required: string[] = schema.required ?? [];
+      const properties = Object.entries(schema.properties).map(
+        ([key, value]: [string, any]) => {
+          const name = IdentifierPattern.test(key) ? key : JSON.stringify(key);
+          const comment = value?.description
+            ? `${indent}  // ${value.description}\n`
+            : '';
+          return `${comment}${indent}  ${name}${
+            required.includes(key) ? '' : '?'
+          }: ${toTypeScript(value, indent + '  ')};`;
+        },
+      );
+      return `{\n${properties.join('\n')}\n${indent}}`;
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+// render the schema for the system message, `description` is the description of the root schema, which is not part of the json schema
+export function renderSchema(
+  jsonSchema: any,
+  format: SchemaFormat,
+  description?: string,
+): string {
+  if (format === 'json_schema') {
+    return JSON.stringify(jsonSchema);
+  } else if (format === 'annotated_json_schema') {
+    return JSON.stringify({ description, ...jsonSchema }, null, 2);
+  }
+
+  const { definitions = {}, ...root } = jsonSchema;
+  const types = [
+    ...Object.entries(definitions).map(([name, definition]: [string, any]) =>
+      [
+        definition?.description && `// ${definition.description}`,
+        `type ${name} = ${toTypeScript(definition, '')};`,
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    ),
+    [
+      description && `// ${description}`,
+      `type ${RootTypeName} = ${toTypeScript(root, '')};`,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  ];
+  return types.join('\n\n');
+}
+
+// map data that follows a strict schema back to the zod schema, by removing the nulls that were sent for optional properties
+export function fromStrictData(schema: z.ZodTypeAny, data: any): any {
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return data === null && !def.innerType.isNullable()
+        ? undefined
+        : fromStrictData(def.innerType, data);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return data === null ? data : fromStrictData(def.innerType, data);
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return fromStrictData(def.schema, data);
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return fromStrictData(def.getter(), data);
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return Array.isArray(data)
+        ? data.map((item) => fromStrictData(def.type, item))
+        : data;
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return data;
+      }
+      const shape: z.ZodRawShape = def.shape();
+      const result: Record<string, any> = {};
+      for (const [key, value] of Object.entries(data)) {
+        const mapped = shape[key] ? fromStrictData(shape[key], value) : value;
+        if (mapped !== undefined) {
+          result[key] = mapped;
+        }
+      }
+      return result;
+    }
+    default:
+      return data;
+  }
+}
@@ -0,0 +1,204 @@
+import type { ChatRequestMessage, CompletionApi } from 'llm-api';
+import { last } from 'lodash';
+
+import { getMessageTokens } from './attachments';
+import { chat } from './completion';
+import type { AutoSliceStrategy, SliceReport } from './types';
+import { createUsageReport, PricingTable, UsageReport } from './usage';
+
+const TrimMarker = '\n\n[...]\n\n';
+const SummarizePrompt =
+  'Summarize the conversation above in a few paragraphs. Keep all facts, names, numbers and decisions that could be relevant to continue the conversation.';
+
+// binary search for the largest length between 0 and `length` that still fits
+function findLongestFit(length: number, fits: (n: number) => boolean): number {
+  let lo = 0;
+  let hi = length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (fits(mid)) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
+
+// remove at least `removeTokens` tokens from the text, measured with the model's tokenizer
+export function trimText(
+  model: CompletionApi,
+  text: string,
+  removeTokens: number,
+  position: 'start' | 'middle' | 'end',
+): { text: string; removedText: string } | undefined {
+  const countTokens = (t: string) => model.getTokensFromPrompt([t]);
+  const targetTokens =
+    countTokens(text) -
+    removeTokens -
+    (position === 'middle' ? countTokens(TrimMarker) : 0);
+  if (targetTokens <= 0) {
+    return undefined;
+  }
+
+  if (position === 'end') {
+    const length = findLongestFit(
+      text.length - 1,
+      (n) => countTokens(text.slice(0, n)) <= targetTokens,
+    );
+    return { text: text.slice(0, length), removedText: text.slice(length) };
+  } else if (position === 'start') {
+    const length = findLongestFit(
+      text.length - 1,
+      (n) => countTokens(text.slice(text.length - n)) <= targetTokens,
+    );
+    return {
+      text: text.slice(text.length - length),
+      removedText: text.slice(0, text.length - length),
+    };
+  } else {
+    // keep the start and end of the text, which is where instructions and questions usually are
+    const headLength = findLongestFit(
+      text.length - 1,
+      (n) => countTokens(text.slice(0, n)) <= Math.floor(targetTokens / 2),
+    );
+    const headTokens = countTokens(text.slice(0, headLength));
+    const tailLength = findLongestFit(
+      text.length - 1 - headLength,
+      (n) =>
+        countTokens(text.slice(text.length - n)) <= targetTokens - headTokens,
+    );
+    return {
+      text:
+        text.slice(0, headLength) +
+        TrimMarker +
+        text.slice(text.length - tailLength),
+      removedText: text.slice(headLength, text.length - tailLength),
+    };
+  }
+}
+
+// drop the oldest messages until at least `removeTokens` tokens are removed
+export function dropOldestMessages(
+  model: CompletionApi,
+  messages: ChatRequestMessage[],
+  removeTokens: number,
+): { messages: ChatRequestMessage[]; removedMessages: ChatRequestMessage[] } {
+  let removedTokens = 0;
+  let index = 0;
+  while (index < messages.length && removedTokens < removeTokens) {
+    removedTokens += getMessageTokens(model, [messages[index]]);
+    index += 1;
+  }
+  // the history has to start with a user message, anthropic models reject anything else, and tool results can't be sent without their function call
+  while (index < messages.length && messages[index].role !== 'user') {
+    index += 1;
+  }
+
+  return {
+    messages: messages.slice(index),
+    removedMessages: messages.slice(0, index),
+  };
+}
+
+async function summarize(
+  model: CompletionApi,
+  history: ChatRequestMessage[],
+  pricing?: PricingTable,
+): Promise<{ summary: string; usageReport: UsageReport }> {
+  const transcript = history
+    .map((m) => `${m.role}: ${m.content ?? ''}`)
+    .join('\n\n');
+
+  // the instructions are at the end, so if the transcript itself is too long, the oldest turns are trimmed first
+  const res = await chat(
+    model,
+    [
+      {
+        role: 'user',
+        content: `<conversation>\n${transcript}\n</conversation>\n\n${SummarizePrompt}`,
+      },
+    ],
+    { autoSlice: 'start', pricing },
+  );
+  return {
+    summary: res.data,
+    usageReport: createUsageReport(
+      res.usageReport.requests.map((r) => ({ ...r, kind: 'summarize' })),
+    ),
+  };
+}
+
+// slice the messages so they are at least `overflowTokens` shorter, returns undefined if nothing more can be sliced
+export async function sliceMessages(
+  model: CompletionApi,
+  messages: ChatRequestMessage[],
+  overflowTokens: number,
+  strategy: AutoSliceStrategy,
+  pricing?: PricingTable,
+): Promise<
+  | {
+      messages: ChatRequestMessage[];
+      report: SliceReport;
+      // usage of the requests sent while slicing
+      usageReport: UsageReport;
+    }
+  | undefined
+> {
+  const lastMessage = last(messages);
+  if (!lastMessage) {
+    return undefined;
+  }
+  const history = messages.slice(0, -1);
+  const report: SliceReport = {
+    strategy,
+    overflowTokens,
+    removedMessages: [],
+    removedText: '',
+  };
+  const usageReport = createUsageReport([]);
+
+  // slice the history first, and only fall back to trimming the last message when there is no history left
+  if (strategy === 'history' && history.length > 0) {
+    const dropped = dropOldestMessages(model, history, overflowTokens);
+    report.removedMessages = dropped.removedMessages;
+    return {
+      messages: [...dropped.messages, lastMessage],
+      report,
+      usageReport,
+    };
+  } else if (strategy === 'summarize' && history.length > 0) {
+    const summarized = await summarize(model, history, pricing);
+    report.removedMessages = history;
+    report.summary = summarized.summary;
+    return {
+      messages: [
+        {
+          ...lastMessage,
+          content: `<conversation_summary>\n${
+            report.summary
+          }\n</conversation_summary>\n\n${lastMessage.content ?? ''}`,
+        },
+      ],
+      report,
+      usageReport: summarized.usageReport,
+    };
+  }
+
+  const trimmed = trimText(
+    model,
+    lastMessage.content ?? '',
+    overflowTokens,
+    strategy === 'start' || strategy === 'end' ? strategy : 'middle',
+  );
+  if (!trimmed) {
+    return undefined;
+  }
+
+  report.removedText = trimmed.removedText;
+  return {
+    messages: [...history, { ...lastMessage, content: trimmed.text }],
+    report,
+    usageReport,
+  };
+}
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+import { MockCompletionApi } from './mock';
+import { streamCompletion } from './stream';
+
+describe('streamCompletion', () => {
+  it('Should yield the streamed text when no schema is set', async () => {
+    const model = new MockCompletionApi(['Hello world, how are you?'], {
+      stream: true,
+    });
+    const chunks = [];
+    for await (const chunk of streamCompletion(model, 'Hello')) {
+      chunks.push(chunk.data);
+    }
+
+    expect(chunks).toEqual([
+      'Hello wo',
+      'Hello world, how',
+      'Hello world, how are you',
+      'Hello world, how are you?',
+      'Hello world, how are you?',
+    ]);
+  });
+
+  it('Should yield partial data snapshots followed by the validated data', async () => {
+    const model = new MockCompletionApi(
+      [' "Acme", "tags": ["ai", "saas"] }\n'],
+      { stream: true },
+      { capabilities: { functionCalling: false } },
+    );
+    const chunks = [];
+    for await (const chunk of streamCompletion(model, 'Generate a startup', {
+      schema: z.object({ name: z.string(), tags: z.array(z.string()) }),
+    })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((c) => c.done)).toEqual([
+      ...Array(chunks.length - 1).fill(false),
+      true,
+    ]);
+    expect(chunks.map((c) => c.data)).toMatchSnapshot();
+  });
+
+  it('Should stream json instead of function calls for function calling models', async () => {
+    const model = new MockCompletionApi(
+      [' "Acme", "tags": ["ai", "saas"] }\n'],
+      { stream: true },
+    );
+    const chunks = [];
+    for await (const chunk of streamCompletion(model, 'Generate a startup', {
+      schema: z.object({ name: z.string(), tags: z.array(z.string()) }),
+    })) {
+      chunks.push(chunk);
+    }
+
+    expect(model.requests[0].opt.functions).toBeUndefined();
+    expect(chunks.filter((c) => !c.done).length).toBeGreaterThan(1);
+    expect(chunks[chunks.length - 1].data).toEqual({
+      name: 'Acme',
+      tags: ['ai', 'saas'],
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import EventEmitter from 'events';
+import type { CompletionApi } from 'llm-api';
+import type { PartialDeep } from 'type-fest';
+import { z } from 'zod';
+
+import { getCapabilities } from './capabilities';
+import { completion } from './completion';
+import { getOutputSchema, unwrapOutput } from './schema';
+import type { OutputStrategy, RequestOptions, Response } from './types';
+import { parsePartialJson } from './utils';
+
+export type StreamResponse<T extends z.ZodType> =
+  | {
+      done: false;
+
+      // snapshot of the data received so far
+      data: PartialDeep<z.infer<T>>;
+    }
+  | {
+      done: true;
+
+      // fully validated data, same as `response.data`
+      data: z.infer<T>;
+      response: Response<T>;
+    };
+
+export async function* streamCompletion<T extends z.ZodType = z.ZodString>(
+  model: CompletionApi,
+  prompt: string | (() => string),
+  opt?: Partial<RequestOptions<T>>,
+): AsyncGenerator<StreamResponse<T>, void> {
+  const events = opt?.events ?? new EventEmitter();
+  const output = opt?.schema && getOutputSchema(opt.schema);
+  // accept incomplete outputs, so partial snapshots can be validated as they stream in
+  const partialSchema = output?.schema.deepPartial();
+
+  // llm-api does not stream the arguments of function calls, so unless a strategy is set, models that would respond with a function call are asked for json in the text instead
+  const capabilities = getCapabilities(model, opt?.capabilities);
+  const strategy: OutputStrategy | undefined =
+    opt?.strategy ??
+    (output && capabilities.functionCalling && !capabilities.strictSchema
+      ? capabilities.jsonMode
+        ? 'json_mode'
+        : 'json_prompt'
+      : undefined);
+
+  let buffer = '';
+  let updated = false;
+  let finished = false;
+  let notify: (() => void) | undefined;
+
+  // a new request is sent on every auto heal round, so start over with a fresh buffer
+  const onRequest = () => {
+    buffer = '';
+  };
+  const onData = (text: string) => {
+    buffer += text;
+    updated = true;
+    notify?.();
+  };
+  events.on('request', onRequest);
+  events.on('data', onData);
+
+  const pending = completion(model, prompt, {
+    ...opt,
+    strategy,
+    events,
+  }).finally(() => {
+    finished = true;
+    notify?.();
+  });
+  // the rejection is handled when the promise is awaited below, avoid unhandled rejection warnings in the meantime
+  pending.catch(() => undefined);
+
+  try {
+    let lastSnapshot: string | undefined;
+    while (!finished) {
+      await new Promise<void>((resolve) => {
+        notify = resolve;
+        if (updated || finished) {
+          resolve();
+        }
+      });
+      notify = undefined;
+
+      if (!updated) {
+        continue;
+      }
+      updated = false;
+
+      const partial = output ? parsePartialJson(buffer) : buffer;
+      const res = await partialSchema?.safeParseAsync(partial);
+      if (res && !res.success) {
+        continue;
+      }
+
+      const data =
+        output && res?.success ? unwrapOutput(output, res.data) : partial;
+      if (data === undefined) {
+        continue;
+      }
+
+      const snapshot = JSON.stringify(data);
+      if (snapshot !== lastSnapshot) {
+        lastSnapshot = snapshot;
+        yield { done: false, data };
+      }
+    }
+
+    const response = await pending;
+    yield { done: true, data: response.data, response };
+  } finally {
+    events.off('request', onRequest);
+    events.off('data', onData);
+  }
+}
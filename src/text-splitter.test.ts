@@ -1,4 +1,11 @@
-import { RecursiveCharacterTextSplitter } from './text-splitter';
+import {
+  CodeTextSplitter,
+  HtmlTextSplitter,
+  MarkdownTextSplitter,
+  RecursiveCharacterTextSplitter,
+  TokenTextSplitter,
+} from './text-splitter';
+import { countTokens } from './tokenizer';
 
 describe('RecursiveCharacterTextSplitter', () => {
   it('Should correctly spilt text by seperators', () => {
@@ -27,3 +34,187 @@ describe('RecursiveCharacterTextSplitter', () => {
     expect(res.map((r) => r.length)).toMatchSnapshot();
   });
 });
+
+describe('TokenTextSplitter', () => {
+  it('Should measure chunks in tokens', () => {
+    const splitter = new TokenTextSplitter({
+      chunkSize: 10,
+      chunkOverlap: 2,
+    });
+    const res = splitter.splitText(
+      'Hello world, this is a test of the token text splitter. It should split along sentences when the token count gets too large.',
+    );
+
+    expect(res).toMatchSnapshot();
+    for (const chunk of res) {
+      expect(countTokens(chunk)).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it('Should use a custom length function', () => {
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 3,
+      chunkOverlap: 1,
+      lengthFunction: (text) => text.split(' ').length,
+    });
+
+    expect(splitter.splitText('one two three four five six')).toEqual([
+      'one two',
+      'two three',
+      'three four',
+      'four five',
+      'five six',
+    ]);
+  });
+});
+
+describe('MarkdownTextSplitter', () => {
+  it('Should split by heading and keep fenced code blocks together', () => {
+    const splitter = new MarkdownTextSplitter({
+      chunkSize: 80,
+      chunkOverlap: 0,
+    });
+    const res = splitter.splitText(
+      [
+        '# Title',
+        '',
+        'Intro paragraph.',
+        '',
+        '## Install',
+        '',
+        '```bash',
+        '## not a heading',
+        'npm i zod-gpt',
+        '',
+        'echo done',
+        '```',
+        '',
+        '## Usage',
+        '### Options',
+        'Some text here that is long enough to be split from the next paragraph.',
+        '',
+        'Another paragraph.',
+      ].join('\n'),
+    );
+
+    expect(res).toMatchSnapshot();
+  });
+
+  it('Should split blocks that are too large with custom separators', () => {
+    const splitter = new MarkdownTextSplitter({
+      chunkSize: 10,
+      chunkOverlap: 0,
+      separators: ['|'],
+    });
+
+    expect(splitter.separators).toEqual(['|']);
+    expect(splitter.splitText('one|two|three|four')).toEqual([
+      'one|two',
+      'three|four',
+    ]);
+  });
+});
+
+describe('CodeTextSplitter', () => {
+  it('Should split code on class and function boundaries', () => {
+    const splitter = new CodeTextSplitter({
+      language: 'ts',
+      chunkSize: 60,
+      chunkOverlap: 0,
+    });
+    const res = splitter.splitText(
+      [
+        "import { z } from 'zod';",
+        '',
+        'export class Foo {',
+        '  bar() {',
+        '    return 1;',
+        '  }',
+        '}',
+        '',
+        'export function baz() {',
+        '  return 2;',
+        '}',
+      ].join('\n'),
+    );
+
+    expect(res).toMatchSnapshot();
+  });
+});
+
+describe('HtmlTextSplitter', () => {
+  it('Should split html on block elements', () => {
+    const splitter = new HtmlTextSplitter({ chunkSize: 40, chunkOverlap: 0 });
+    const res = splitter.splitText(
+      '<h1>Title</h1><p>Paragraph one is here.</p><p>Paragraph two.</p><ul><li>a</li><li>b</li></ul>',
+    );
+
+    expect(res).toMatchSnapshot();
+  });
+});
+
+describe('createDocumentsWithMetadata', () => {
+  it('Should keep metadata and add chunk offsets', () => {
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 30,
+      chunkOverlap: 10,
+    });
+    const text = 'The first sentence is here. The second sentence is here.';
+    const docs = splitter.createDocumentsWithMetadata(
+      [text],
+      [{ source: 'a.txt' }],
+    );
+
+    expect(docs).toMatchSnapshot();
+    for (const doc of docs) {
+      expect(text.slice(doc.metadata.start, doc.metadata.end)).toBe(
+        doc.pageContent,
+      );
+    }
+  });
+
+  it('Should keep returning plain chunks from createDocuments', () => {
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 30,
+      chunkOverlap: 10,
+    });
+    const text = 'The first sentence is here. The second sentence is here.';
+
+    expect(splitter.splitDocuments([text])).toEqual(
+      splitter
+        .createDocumentsWithMetadata([text])
+        .map((doc) => doc.pageContent),
+    );
+    expect(splitter.createDocuments([text])).toEqual(splitter.splitText(text));
+  });
+
+  it('Should add the heading path to markdown chunks', () => {
+    const splitter = new MarkdownTextSplitter({
+      chunkSize: 100,
+      chunkOverlap: 0,
+    });
+    const docs = splitter.splitDocumentsWithMetadata([
+      {
+        pageContent: '# Guide\n\nIntro.\n\n## Install\n\nRun npm i.',
+        metadata: { source: 'README.md' },
+      },
+    ]);
+
+    expect(docs.map((doc) => doc.metadata)).toEqual([
+      {
+        source: 'README.md',
+        headings: ['Guide'],
+        chunkIndex: 0,
+        start: 0,
+        end: 15,
+      },
+      {
+        source: 'README.md',
+        headings: ['Guide', 'Install'],
+        chunkIndex: 1,
+        start: 17,
+        end: 39,
+      },
+    ]);
+  });
+});
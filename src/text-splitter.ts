@@ -1,16 +1,49 @@
+import { last } from 'lodash';
+
+import { countTokens, TiktokenEncoding } from './tokenizer';
+import { debug } from './utils';
+
+export interface Document<
+  Metadata extends Record<string, any> = Record<string, any>,
+> {
+  pageContent: string;
+  metadata: Metadata;
+}
+
+export type ChunkMetadata = {
+  // index of the chunk within its source text
+  chunkIndex: number;
+
+  // character offsets of the chunk in its source text, not set if the chunk was modified while merging and could not be located
+  start?: number;
+  end?: number;
+};
+
+// chunk of text, together with any metadata the splitter knows about it
+type TextChunk = {
+  text: string;
+  metadata?: Record<string, any>;
+};
+
 interface TextSplitterParams {
   chunkSize: number;
 
   chunkOverlap: number;
+
+  // measures the length of a chunk, `chunkSize` and `chunkOverlap` are expressed in this unit
+  // default: number of characters
+  lengthFunction: (text: string) => number;
 }
 
-abstract class TextSplitter implements TextSplitterParams {
+export abstract class TextSplitter implements TextSplitterParams {
   chunkSize = 1000;
   chunkOverlap = 200;
+  lengthFunction = (text: string) => text.length;
 
   constructor(fields?: Partial<TextSplitterParams>) {
     this.chunkSize = fields?.chunkSize ?? this.chunkSize;
     this.chunkOverlap = fields?.chunkOverlap ?? this.chunkOverlap;
+    this.lengthFunction = fields?.lengthFunction ?? this.lengthFunction;
     if (this.chunkOverlap >= this.chunkSize) {
       throw new Error('Cannot have chunkOverlap >= chunkSize');
     }
@@ -18,19 +51,62 @@ abstract class TextSplitter implements TextSplitterParams {
 
   abstract splitText(text: string): string[];
 
+  // override to attach splitter specific metadata to each chunk
+  protected splitTextWithMetadata(text: string): TextChunk[] {
+    return this.splitText(text).map((chunk) => ({ text: chunk }));
+  }
+
   createDocuments(texts: string[]): string[] {
-    const documents: string[] = [];
+    return this.createDocumentsWithMetadata(texts).map(
+      (doc) => doc.pageContent,
+    );
+  }
+
+  splitDocuments(documents: string[]): string[] {
+    return this.createDocuments(documents);
+  }
+
+  // split texts into documents that keep the metadata of their source text, and know where in the source they came from
+  createDocumentsWithMetadata<Metadata extends Record<string, any>>(
+    texts: string[],
+    metadatas: Metadata[] = [],
+  ): Document<Metadata & ChunkMetadata>[] {
+    const documents: Document<Metadata & ChunkMetadata>[] = [];
     for (let i = 0; i < texts.length; i += 1) {
       const text = texts[i];
-      for (const chunk of this.splitText(text)) {
-        documents.push(chunk);
-      }
+
+      // chunks are in order but can overlap, so start searching right after the start of the previous chunk
+      let cursor = 0;
+      this.splitTextWithMetadata(text).forEach((chunk, chunkIndex) => {
+        let start = text.indexOf(chunk.text, cursor);
+        if (start < 0) {
+          start = text.indexOf(chunk.text);
+        }
+        if (start >= 0) {
+          cursor = start + 1;
+        }
+
+        documents.push({
+          pageContent: chunk.text,
+          metadata: {
+            ...metadatas[i],
+            ...chunk.metadata,
+            chunkIndex,
+            ...(start >= 0 ? { start, end: start + chunk.text.length } : {}),
+          },
+        });
+      });
     }
     return documents;
   }
 
-  splitDocuments(documents: string[]): string[] {
-    return this.createDocuments(documents);
+  splitDocumentsWithMetadata<Metadata extends Record<string, any>>(
+    documents: Document<Metadata>[],
+  ): Document<Metadata & ChunkMetadata>[] {
+    return this.createDocumentsWithMetadata(
+      documents.map((doc) => doc.pageContent),
+      documents.map((doc) => doc.metadata),
+    );
   }
 
   private joinDocs(docs: string[], separator: string): string | null {
@@ -43,12 +119,11 @@ abstract class TextSplitter implements TextSplitterParams {
     const currentDoc: string[] = [];
     let total = 0;
     for (const d of splits) {
-      const _len = d.length;
+      const _len = this.lengthFunction(d);
       if (total + _len >= this.chunkSize) {
         if (total > this.chunkSize) {
-          console.warn(
-            `Created a chunk of size ${total}, +
-which is longer than the specified ${this.chunkSize}`,
+          debug.log(
+            `⚠️ Created a chunk of size ${total}, which is longer than the specified ${this.chunkSize}`,
           );
         }
         if (currentDoc.length > 0) {
@@ -63,7 +138,7 @@ which is longer than the specified ${this.chunkSize}`,
             total > this.chunkOverlap ||
             (total + _len > this.chunkSize && total > 0)
           ) {
-            total -= currentDoc[0].length;
+            total -= this.lengthFunction(currentDoc[0]);
             currentDoc.shift();
           }
         }
@@ -109,6 +184,10 @@ export class CharacterTextSplitter
 export interface RecursiveCharacterTextSplitterParams
   extends TextSplitterParams {
   separators: string[];
+
+  // keep separators at the start of the chunk that follows them, instead of dropping them at chunk boundaries
+  // default: false
+  keepSeparator: boolean;
 }
 
 export class RecursiveCharacterTextSplitter
@@ -116,55 +195,347 @@ export class RecursiveCharacterTextSplitter
   implements RecursiveCharacterTextSplitterParams
 {
   separators: string[] = ['\n\n', '\n', '.', ',', ' ', ''];
+  keepSeparator = false;
 
   constructor(fields?: Partial<RecursiveCharacterTextSplitterParams>) {
     super(fields);
     this.separators = fields?.separators ?? this.separators;
+    this.keepSeparator = fields?.keepSeparator ?? this.keepSeparator;
   }
 
   splitText(text: string): string[] {
+    return this.splitTextWithSeparators(text, this.separators);
+  }
+
+  protected splitTextWithSeparators(
+    text: string,
+    separators: string[],
+  ): string[] {
     const finalChunks: string[] = [];
 
-    // Get appropriate separator to use
-    let separator: string = this.separators[this.separators.length - 1];
-    for (const s of this.separators) {
-      if (s === '') {
-        separator = s;
-        break;
-      }
-      if (text.includes(s)) {
+    // Get appropriate separator to use, longer texts are split further with the separators that come after it
+    let separator: string = separators[separators.length - 1];
+    let nextSeparators: string[] = [];
+    for (let i = 0; i < separators.length; i += 1) {
+      const s = separators[i];
+      if (s === '' || text.includes(s)) {
         separator = s;
+        nextSeparators = separators.slice(i + 1);
         break;
       }
     }
 
     // Now that we have the separator, split the text
     let splits: string[];
-    if (separator) {
-      splits = text.split(separator);
-    } else {
+    if (!separator) {
       splits = text.split('');
+    } else if (this.keepSeparator) {
+      splits = text
+        .split(separator)
+        .map((s, i) => (i === 0 ? s : separator + s))
+        .filter((s) => s !== '');
+    } else {
+      splits = text.split(separator);
     }
+    const mergeSeparator = this.keepSeparator ? '' : separator;
 
     // Now go merging things, recursively splitting longer texts.
     let goodSplits: string[] = [];
     for (const s of splits) {
-      if (s.length < this.chunkSize) {
+      if (this.lengthFunction(s) < this.chunkSize) {
         goodSplits.push(s);
       } else {
         if (goodSplits.length) {
-          const mergedText = this.mergeSplits(goodSplits, separator);
+          const mergedText = this.mergeSplits(goodSplits, mergeSeparator);
           finalChunks.push(...mergedText);
           goodSplits = [];
         }
-        const otherInfo = this.splitText(s);
-        finalChunks.push(...otherInfo);
+        if (nextSeparators.length) {
+          const otherInfo = this.splitTextWithSeparators(s, nextSeparators);
+          finalChunks.push(...otherInfo);
+        } else {
+          finalChunks.push(s);
+        }
       }
     }
     if (goodSplits.length) {
-      const mergedText = this.mergeSplits(goodSplits, separator);
+      const mergedText = this.mergeSplits(goodSplits, mergeSeparator);
       finalChunks.push(...mergedText);
     }
     return finalChunks;
   }
 }
+
+export interface TokenTextSplitterParams
+  extends RecursiveCharacterTextSplitterParams {
+  encoding: TiktokenEncoding;
+}
+
+// recursive splitter that measures chunks in tokens instead of characters, using a bundled tokenizer
+export class TokenTextSplitter
+  extends RecursiveCharacterTextSplitter
+  implements TokenTextSplitterParams
+{
+  encoding: TiktokenEncoding = 'cl100k_base';
+
+  constructor(
+    fields?: Partial<Omit<TokenTextSplitterParams, 'lengthFunction'>>,
+  ) {
+    super(fields);
+    this.encoding = fields?.encoding ?? this.encoding;
+    this.lengthFunction = (text: string) => countTokens(text, this.encoding);
+  }
+}
+
+export type CodeLanguage = 'js' | 'ts' | 'python';
+
+// split on class and function boundaries first, then fall back to blank lines, lines and words
+const CodeSeparators: Record<CodeLanguage, string[]> = {
+  js: [
+    '\nexport ',
+    '\nclass ',
+    '\nfunction ',
+    '\nasync function ',
+    '\nconst ',
+    '\nlet ',
+    '\nvar ',
+    '\n\n',
+    '\n',
+    ' ',
+    '',
+  ],
+  ts: [
+    '\nexport ',
+    '\nclass ',
+    '\nabstract class ',
+    '\ninterface ',
+    '\ntype ',
+    '\nenum ',
+    '\nnamespace ',
+    '\nfunction ',
+    '\nasync function ',
+    '\nconst ',
+    '\nlet ',
+    '\nvar ',
+    '\n\n',
+    '\n',
+    ' ',
+    '',
+  ],
+  python: [
+    '\nclass ',
+    '\n@',
+    '\ndef ',
+    '\nasync def ',
+    '\n    @',
+    '\n    def ',
+    '\n    async def ',
+    '\n\n',
+    '\n',
+    ' ',
+    '',
+  ],
+};
+
+export interface CodeTextSplitterParams
+  extends RecursiveCharacterTextSplitterParams {
+  language: CodeLanguage;
+}
+
+export class CodeTextSplitter
+  extends RecursiveCharacterTextSplitter
+  implements CodeTextSplitterParams
+{
+  language: CodeLanguage = 'ts';
+
+  constructor(fields?: Partial<CodeTextSplitterParams>) {
+    super({ keepSeparator: true, ...fields });
+    this.language = fields?.language ?? this.language;
+    this.separators = fields?.separators ?? CodeSeparators[this.language];
+  }
+}
+
+// split on block level elements, so paragraphs, lists and tables stay together where possible
+const HtmlSeparators = [
+  '<body',
+  '<section',
+  '<article',
+  '<div',
+  '<h1',
+  '<h2',
+  '<h3',
+  '<h4',
+  '<h5',
+  '<h6',
+  '<table',
+  '<blockquote',
+  '<pre',
+  '<ul',
+  '<ol',
+  '<p',
+  '<tr',
+  '<li',
+  '<br',
+  '\n\n',
+  '\n',
+  ' ',
+  '',
+];
+
+export class HtmlTextSplitter extends RecursiveCharacterTextSplitter {
+  constructor(fields?: Partial<RecursiveCharacterTextSplitterParams>) {
+    super({ keepSeparator: true, ...fields });
+    this.separators = fields?.separators ?? HtmlSeparators;
+  }
+}
+
+type MarkdownSection = {
+  text: string;
+
+  // titles of the headings the section is nested under, starting from the top level heading
+  headings: string[];
+
+  // character offsets of the section in the source text
+  start: number;
+  end: number;
+};
+
+const MarkdownFenceRegex = /^\s{0,3}(`{3,}|~{3,})/;
+const MarkdownHeadingRegex = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+// split markdown into lines with their offsets, marking lines that are inside fenced code blocks
+function getMarkdownLines(text: string) {
+  const lines: { text: string; start: number; fenced: boolean }[] = [];
+  let fence: string | undefined;
+  let start = 0;
+  for (const line of text.split('\n')) {
+    const marker = line.match(MarkdownFenceRegex)?.[1];
+    const fenced = !!fence || !!marker;
+    if (marker && !fence) {
+      fence = marker;
+    } else if (marker && fence && marker[0] === fence[0]) {
+      fence = undefined;
+    }
+
+    lines.push({ text: line, start, fenced });
+    start += line.length + 1;
+  }
+  return lines;
+}
+
+// split markdown into sections by heading, headings inside fenced code blocks are ignored
+function splitMarkdownSections(text: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const headings: { level: number; title: string }[] = [];
+
+  let current: MarkdownSection | undefined;
+  let hasContent = false;
+  for (const line of getMarkdownLines(text)) {
+    const heading = !line.fenced && line.text.match(MarkdownHeadingRegex);
+    if (heading) {
+      const level = heading[1].length;
+      while ((last(headings)?.level ?? 0) >= level) {
+        headings.pop();
+      }
+      headings.push({ level, title: heading[2] });
+
+      // headings without any content are kept together with the section that follows them
+      if (current && hasContent) {
+        sections.push(current);
+        current = undefined;
+      }
+    }
+
+    if (!current) {
+      current = { text: '', headings: [], start: line.start, end: line.start };
+      hasContent = false;
+    }
+    current.text = text.slice(current.start, line.start + line.text.length);
+    current.end = line.start + line.text.length;
+    current.headings = headings.map((h) => h.title);
+    hasContent = hasContent || (!heading && line.text.trim() !== '');
+  }
+
+  if (current && current.text.trim()) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+// split markdown into blocks separated by blank lines, fenced code blocks are kept as a single block
+// and headings are kept together with the block that follows them
+function splitMarkdownBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let block: string[] = [];
+  let headings: string[] = [];
+  const pushBlock = () => {
+    if (!block.length) {
+      return;
+    }
+    if (block.every((line) => MarkdownHeadingRegex.test(line))) {
+      headings.push(block.join('\n'));
+    } else {
+      blocks.push([...headings, block.join('\n')].join('\n\n'));
+      headings = [];
+    }
+    block = [];
+  };
+
+  for (const line of getMarkdownLines(text)) {
+    if (!line.fenced && line.text.trim() === '') {
+      pushBlock();
+    } else {
+      block.push(line.text);
+    }
+  }
+  pushBlock();
+  headings.length && blocks.push(headings.join('\n\n'));
+  return blocks;
+}
+
+// splits markdown by heading hierarchy, and keeps paragraphs and fenced code blocks together where possible
+export class MarkdownTextSplitter extends RecursiveCharacterTextSplitter {
+  constructor(fields?: Partial<RecursiveCharacterTextSplitterParams>) {
+    super(fields);
+    this.separators = fields?.separators ?? ['\n\n', '\n', ' ', ''];
+  }
+
+  splitText(text: string): string[] {
+    return this.splitTextWithMetadata(text).map((chunk) => chunk.text);
+  }
+
+  // every chunk gets the titles of the headings it is nested under as `headings` metadata
+  protected splitTextWithMetadata(text: string): TextChunk[] {
+    return splitMarkdownSections(text).flatMap((section) =>
+      this.splitSection(section).map((chunk) => ({
+        text: chunk,
+        metadata: { headings: section.headings },
+      })),
+    );
+  }
+
+  private splitSection(section: MarkdownSection): string[] {
+    if (this.lengthFunction(section.text) <= this.chunkSize) {
+      return [section.text.trim()];
+    }
+
+    // sections that are too large are split by block, and blocks that are too large are split by line
+    const finalChunks: string[] = [];
+    let goodSplits: string[] = [];
+    for (const block of splitMarkdownBlocks(section.text)) {
+      if (this.lengthFunction(block) < this.chunkSize) {
+        goodSplits.push(block);
+      } else {
+        if (goodSplits.length) {
+          finalChunks.push(...this.mergeSplits(goodSplits, '\n\n'));
+          goodSplits = [];
+        }
+        finalChunks.push(...super.splitText(block));
+      }
+    }
+    if (goodSplits.length) {
+      finalChunks.push(...this.mergeSplits(goodSplits, '\n\n'));
+    }
+    return finalChunks;
+  }
+}
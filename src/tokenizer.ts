@@ -0,0 +1,25 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+
+export type { TiktokenEncoding };
+
+// loading an encoding parses its whole rank file, so only do it once per encoding
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+export function getEncoder(
+  encoding: TiktokenEncoding = 'cl100k_base',
+): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+// count tokens with a bundled bpe tokenizer, this works offline
+export function countTokens(
+  text: string,
+  encoding: TiktokenEncoding = 'cl100k_base',
+): number {
+  return getEncoder(encoding).encode(text).length;
+}
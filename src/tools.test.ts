@@ -0,0 +1,162 @@
+import { last } from 'lodash';
+import { z } from 'zod';
+
+import { MaxStepsError } from './errors';
+import { MockCompletionApi } from './mock';
+import { defineTool, runTools } from './tools';
+
+const getWeather = defineTool({
+  description: 'Get the current weather in a city',
+  schema: z.object({ city: z.string() }),
+  execute: jest.fn(({ city }) => ({ city, weather: 'sunny' })),
+});
+
+const finalSchema = z.object({ summary: z.string() });
+
+describe('runTools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('Should execute tool calls and return the typed final answer', async () => {
+    const model = new MockCompletionApi([
+      { name: 'getWeather', arguments: { city: 'Paris' } },
+      { name: 'print', arguments: { summary: 'It is sunny in Paris' } },
+    ]);
+    const res = await runTools(
+      model,
+      [{ role: 'user', content: 'What is the weather in Paris?' }],
+      { tools: { getWeather }, finalSchema },
+    );
+
+    expect(res.data).toEqual({ summary: 'It is sunny in Paris' });
+    expect(getWeather.execute).toHaveBeenCalledWith(
+      { city: 'Paris' },
+      expect.objectContaining({ toolCallId: 'call_1' }),
+    );
+    expect(res.steps).toEqual([
+      {
+        toolCallId: 'call_1',
+        name: 'getWeather',
+        arguments: { city: 'Paris' },
+        result: { city: 'Paris', weather: 'sunny' },
+      },
+    ]);
+    expect(model.requests[0].opt.functions?.map((f) => f.name)).toEqual([
+      'getWeather',
+      'print',
+    ]);
+    expect(last(model.requests[1].messages)).toEqual({
+      role: 'tool',
+      toolCallId: 'call_1',
+      content: '{"city":"Paris","weather":"sunny"}',
+    });
+  });
+
+  it('Should keep asking for the final answer schema when responding to the result', async () => {
+    const model = new MockCompletionApi([
+      { name: 'print', arguments: { summary: 'It is sunny in Paris' } },
+      { arguments: { summary: 'It is rainy in London' } },
+    ]);
+    const res = await runTools(
+      model,
+      [{ role: 'user', content: 'What is the weather in Paris?' }],
+      { tools: { getWeather }, finalSchema },
+    );
+    const next = await res.respond('And in London?');
+
+    expect(next.data).toEqual({ summary: 'It is rainy in London' });
+    expect(model.requests[1].opt.callFunction).toBe('print');
+  });
+
+  it('Should heal tool calls with invalid arguments', async () => {
+    const model = new MockCompletionApi([
+      { name: 'getWeather', arguments: { city: 1 } },
+      { name: 'getWeather', arguments: { city: 'Paris' } },
+      'It is sunny in Paris',
+    ]);
+    const res = await runTools(
+      model,
+      [{ role: 'user', content: 'What is the weather in Paris?' }],
+      { tools: { getWeather } },
+    );
+
+    expect(res.data).toBe('It is sunny in Paris');
+    expect(getWeather.execute).toHaveBeenCalledTimes(1);
+    expect(res.usageReport.requests.map((r) => r.kind)).toEqual([
+      'request',
+      'heal',
+      'request',
+    ]);
+    expect(last(model.requests[1].messages)?.content).toMatchSnapshot();
+  });
+
+  it('Should force the final answer function when the model responds with text', async () => {
+    const model = new MockCompletionApi([
+      { name: 'getWeather', arguments: { city: 'Paris' } },
+      'It is sunny in Paris',
+      { arguments: { summary: 'It is sunny in Paris' } },
+    ]);
+    const res = await runTools(
+      model,
+      [{ role: 'user', content: 'What is the weather in Paris?' }],
+      { tools: { getWeather }, finalSchema },
+    );
+
+    expect(res.data).toEqual({ summary: 'It is sunny in Paris' });
+    expect(model.requests[2].opt.callFunction).toBe('print');
+    expect(res.steps).toHaveLength(1);
+  });
+
+  it('Should throw a MaxStepsError when the model keeps calling tools', async () => {
+    const model = new MockCompletionApi([
+      { name: 'getWeather', arguments: { city: 'Paris' } },
+      { name: 'getWeather', arguments: { city: 'London' } },
+    ]);
+    const error = await runTools(
+      model,
+      [{ role: 'user', content: 'What is the weather in Paris?' }],
+      { tools: { getWeather }, maxSteps: 2 },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MaxStepsError);
+    expect(error.steps).toHaveLength(2);
+  });
+
+  it('Should call the lifecycle hooks for every tool request', async () => {
+    const model = new MockCompletionApi([
+      { name: 'getWeather', arguments: { city: 1 } },
+      { name: 'getWeather', arguments: { city: 'Paris' } },
+      { name: 'getWeather', arguments: { city: 'London' } },
+    ]);
+    const onRequest = jest.fn();
+    const onResponse = jest.fn();
+    const onHealAttempt = jest.fn();
+    const onError = jest.fn();
+    const error = await runTools(
+      model,
+      [{ role: 'user', content: 'What is the weather in Paris?' }],
+      {
+        tools: { getWeather },
+        maxSteps: 3,
+        onRequest,
+        onResponse,
+        onHealAttempt,
+        onError,
+      },
+    ).catch((e) => e);
+
+    expect(onRequest.mock.calls.map(([event]) => event.kind)).toEqual([
+      'request',
+      'heal',
+      'request',
+    ]);
+    expect(onResponse).toHaveBeenCalledTimes(3);
+    expect(onHealAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ arguments: { city: 1 } }),
+      1,
+    );
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+});
@@ -0,0 +1,324 @@
+import type {
+  ChatRequestMessage,
+  ChatResponse,
+  CompletionApi,
+  ModelRequestOptions,
+} from 'llm-api';
+import { omit } from 'lodash';
+import { z } from 'zod';
+
+import { getCapabilities } from './capabilities';
+import { chat } from './completion';
+import { FunctionName, getAutoHealOptions } from './defaults';
+import { AutoHealError, MaxStepsError } from './errors';
+import { sendRequest } from './request';
+import {
+  formatIssues,
+  getOutputSchema,
+  OutputSchema,
+  unwrapOutput,
+} from './schema';
+import type { TraceSpan } from './tracing';
+import type {
+  HealAttempt,
+  RequestOptions,
+  Response,
+  ToolCallStep,
+} from './types';
+import {
+  chainUsage,
+  createUsageReport,
+  RequestKind,
+  RequestUsage,
+} from './usage';
+import { debug, MaybePromise, zodToJsonSchema } from './utils';
+
+export type Tool<T extends z.AnyZodObject = z.AnyZodObject> = {
+  // describe when the model should use this tool
+  description?: string;
+
+  // schema of the arguments, arguments are validated and healed the same way as outputs of `chat`
+  schema: T;
+
+  // run the tool with the validated arguments, the result is sent back to the model as json
+  execute: (
+    args: z.infer<T>,
+    call: { toolCallId?: string; messages: ChatRequestMessage[] },
+  ) => MaybePromise<unknown>;
+};
+
+// helper to infer the argument types of `execute` from the schema
+export function defineTool<T extends z.AnyZodObject>(tool: Tool<T>): Tool<T> {
+  return tool;
+}
+
+export type RunToolsOptions<T extends z.ZodType> = Omit<
+  Partial<RequestOptions<T>>,
+  'schema' | 'autoSlice' | 'strategy' | 'cache' | 'messageHistory'
+> & {
+  // tools the model can choose from, keyed by function name
+  tools: Record<string, Tool<any>>;
+
+  // schema of the final answer, if not set the final answer is the text of the last response
+  finalSchema?: T;
+
+  // maximum number of requests to send to the model, including auto heal rounds
+  // default: 10
+  maxSteps?: number;
+};
+
+export type RunToolsResult<T extends z.ZodType> = Response<T> & {
+  // every tool call that was executed, in order
+  steps: ToolCallStep[];
+
+  // full conversation, including tool calls and results
+  messages: ChatRequestMessage[];
+};
+
+const Defaults = {
+  maxSteps: 10,
+};
+
+// let the model call tools until it has enough information to give a final answer
+export async function runTools<T extends z.ZodType = z.ZodString>(
+  model: CompletionApi,
+  messages: ChatRequestMessage[],
+  opt: RunToolsOptions<T>,
+): Promise<RunToolsResult<T>> {
+  const span = opt.tracer?.startSpan('zod-gpt.tools', {
+    'gen_ai.request.model': model.modelConfig.model,
+    'zod_gpt.schema': !!opt.finalSchema,
+  });
+
+  try {
+    const res = await runToolLoop(model, messages, opt, span);
+    span?.setAttributes({
+      'zod_gpt.steps': res.steps.length,
+      'gen_ai.usage.input_tokens': res.usageReport.total.promptTokens,
+      'gen_ai.usage.output_tokens': res.usageReport.total.completionTokens,
+    });
+    return res;
+  } catch (e) {
+    span?.recordException(e);
+    opt.onError?.(e);
+    throw e;
+  } finally {
+    span?.end();
+  }
+}
+
+async function runToolLoop<T extends z.ZodType>(
+  model: CompletionApi,
+  messages: ChatRequestMessage[],
+  opt: RunToolsOptions<T>,
+  span: TraceSpan | undefined,
+): Promise<RunToolsResult<T>> {
+  const { tools, finalSchema, maxSteps = Defaults.maxSteps } = opt;
+  if (!getCapabilities(model, opt.capabilities).functionCalling) {
+    throw new Error('runTools requires a model with function calling');
+  }
+
+  const chatOpt: Partial<RequestOptions<T>> = omit(
+    opt,
+    'tools',
+    'finalSchema',
+    'maxSteps',
+  );
+  const finalName = opt.functionName ?? FunctionName;
+  const output: OutputSchema | undefined =
+    finalSchema && getOutputSchema(finalSchema);
+  const requestOpt: ModelRequestOptions = {
+    ...omit(chatOpt, 'autoHeal', 'capabilities'),
+    functions: [
+      ...Object.entries(tools).map(([name, tool]) => ({
+        name,
+        description: tool.description,
+        parameters: zodToJsonSchema(tool.schema),
+      })),
+      // the final answer is a function too, so the model can answer without an extra request
+      ...(output
+        ? [
+            {
+              name: finalName,
+              description:
+                opt.functionDescription ??
+                'Respond with the final answer by calling this function.',
+              parameters: zodToJsonSchema(output.schema),
+            },
+          ]
+        : []),
+    ],
+  };
+  const autoHeal = getAutoHealOptions(opt.autoHeal ?? true);
+
+  let history = messages;
+  const steps: ToolCallStep[] = [];
+  let attempts: HealAttempt[] = [];
+
+  // follow up requests of `respond` ask for the final answer again, so their data is validated with the same schema
+  const respondOpt: Partial<RequestOptions<T>> = finalSchema
+    ? { ...chatOpt, schema: finalSchema, functionName: finalName }
+    : chatOpt;
+
+  // usage of every request in the loop, requests after an invalid tool call are heal rounds
+  const usageRequests: RequestUsage[] = [];
+  let kind: RequestKind = 'request';
+
+  // continue the conversation with `chat`, once the tool loop is done
+  const toResult = (
+    response: ChatResponse,
+    history: ChatRequestMessage[],
+    data: z.infer<T>,
+  ): RunToolsResult<T> => {
+    const usageReport = createUsageReport(usageRequests);
+    return {
+      ...response,
+      respond: async (message, messageOpt) =>
+        chainUsage(
+          usageReport,
+          await chat<T>(
+            model,
+            [
+              ...history,
+              response.message,
+              typeof message === 'string'
+                ? response.toolCallId
+                  ? {
+                      role: 'tool',
+                      toolCallId: response.toolCallId,
+                      content: message,
+                    }
+                  : { role: 'user', content: message }
+                : message,
+            ],
+            messageOpt ?? respondOpt,
+          ),
+        ),
+      data,
+      usageReport,
+      model,
+      steps,
+      messages: [...history, response.message],
+    };
+  };
+
+  for (let step = 0; step < maxSteps; step++) {
+    debug.log('⬆️ sending tool request:', history);
+    const { response, usage } = await sendRequest(
+      model,
+      history,
+      kind,
+      requestOpt,
+      opt,
+      span,
+    );
+    usageRequests.push(usage);
+
+    // the model is done calling tools, and responded with text
+    if (!response.name) {
+      if (!finalSchema) {
+        return toResult(response, history, String(response.content));
+      }
+
+      // ask for the final answer again, but this time force the final answer function
+      const final = chainUsage(
+        createUsageReport(usageRequests),
+        // errors are reported once by `runTools`
+        await chat(model, history, omit(respondOpt, 'onError')),
+      );
+      return { ...final, steps, messages: [...history, final.message] };
+    }
+
+    const tool =
+      (output && response.name === finalName) ||
+      !Object.prototype.hasOwnProperty.call(tools, response.name)
+        ? undefined
+        : tools[response.name];
+    const schema = tool
+      ? tool.schema
+      : response.name === finalName
+      ? output?.schema
+      : undefined;
+    const res = await schema?.safeParseAsync(response.arguments);
+
+    if (res?.success) {
+      attempts = [];
+      if (!tool && output) {
+        return toResult(response, history, unwrapOutput(output, res.data));
+      }
+
+      const result = await tool?.execute(res.data, {
+        toolCallId: response.toolCallId,
+        messages: history,
+      });
+      steps.push({
+        toolCallId: response.toolCallId,
+        name: response.name,
+        arguments: res.data,
+        result,
+      });
+      history = [
+        ...history,
+        response.message,
+        {
+          role: 'tool',
+          toolCallId: response.toolCallId,
+          content:
+            typeof result === 'string'
+              ? result
+              : JSON.stringify(result ?? null),
+        },
+      ];
+      kind = 'request';
+      continue;
+    }
+
+    // the tool does not exist, or the arguments did not pass the schema
+    const attempt: HealAttempt = {
+      content: response.content,
+      arguments: response.arguments,
+      json: response.arguments,
+      issues: res?.error.issues ?? [],
+    };
+    attempts.push(attempt);
+    if (!autoHeal || attempts.length > autoHeal.maxAttempts) {
+      throw new AutoHealError('Tool call autoheal failed', {
+        messages: history,
+        response,
+        json: response.arguments,
+        issues: attempt.issues,
+        attempts,
+        usageReport: createUsageReport(usageRequests),
+      });
+    }
+
+    autoHeal.onAttempt?.(attempt, attempts.length);
+    opt.onHealAttempt?.(attempt, attempts.length);
+    kind = 'heal';
+    debug.log('⚠️ invalid tool call, autohealing...', response.name);
+    history = [
+      ...history,
+      response.message,
+      {
+        role: 'tool',
+        toolCallId: response.toolCallId,
+        content: schema
+          ? formatIssues(
+              `There is an issue with the arguments of that call, please call the ${response.name} function again with the correct parameters.`,
+              attempt.issues,
+            )
+          : `There is no function called ${
+              response.name
+            }, please call one of the following functions: ${requestOpt.functions
+              ?.map((f) => f.name)
+              .join(', ')}.`,
+      },
+    ];
+  }
+
+  throw new MaxStepsError(`Tool loop did not finish in ${maxSteps} steps`, {
+    messages: history,
+    steps,
+    usageReport: createUsageReport(usageRequests),
+  });
+}
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+
+import { completion } from './completion';
+import { MockCompletionApi } from './mock';
+import { runTools } from './tools';
+import {
+  createOpenTelemetryTracer,
+  SpanAttributes,
+  TraceSpan,
+  Tracer,
+} from './tracing';
+
+type RecordedSpan = {
+  name: string;
+  attributes: SpanAttributes;
+  parent?: RecordedSpan;
+  errors: unknown[];
+  ended: boolean;
+};
+
+// records every span in memory
+class MemoryTracer implements Tracer {
+  spans: RecordedSpan[] = [];
+  private recorded = new Map<TraceSpan, RecordedSpan>();
+
+  startSpan(name: string, attributes: SpanAttributes = {}, parent?: TraceSpan) {
+    const recorded: RecordedSpan = {
+      name,
+      attributes: { ...attributes },
+      parent: parent && this.recorded.get(parent),
+      errors: [],
+      ended: false,
+    };
+    const span: TraceSpan = {
+      setAttributes: (a) => Object.assign(recorded.attributes, a),
+      recordException: (e) => recorded.errors.push(e),
+      end: () => (recorded.ended = true),
+    };
+    this.spans.push(recorded);
+    this.recorded.set(span, recorded);
+    return span;
+  }
+}
+
+const schema = z.object({ name: z.string(), employees: z.number() });
+
+describe('tracing', () => {
+  it('Should emit a span per chat call with a child span per request', async () => {
+    const tracer = new MemoryTracer();
+    const model = new MockCompletionApi(
+      [
+        { arguments: { name: 'Acme' } },
+        { arguments: { name: 'Acme', employees: 3 } },
+      ],
+      { model: 'test-model' },
+    );
+    await completion(model, 'Generate a startup', { schema, tracer });
+
+    const [chatSpan, ...requestSpans] = tracer.spans;
+    expect(chatSpan).toEqual(
+      expect.objectContaining({
+        name: 'zod-gpt.chat',
+        ended: true,
+        attributes: expect.objectContaining({
+          'gen_ai.request.model': 'test-model',
+          'zod_gpt.validation.success': true,
+          'zod_gpt.heal_attempts': 1,
+        }),
+      }),
+    );
+    expect(requestSpans.map((s) => s.name)).toEqual([
+      'zod-gpt.request',
+      'zod-gpt.request',
+    ]);
+    expect(requestSpans.map((s) => s.parent)).toEqual([chatSpan, chatSpan]);
+    expect(requestSpans[1].attributes).toEqual(
+      expect.objectContaining({
+        'zod_gpt.request.kind': 'heal',
+        'zod_gpt.latency_ms': expect.any(Number),
+        'gen_ai.usage.input_tokens': expect.any(Number),
+      }),
+    );
+  });
+
+  it('Should record errors on the chat span', async () => {
+    const tracer = new MemoryTracer();
+    const model = new MockCompletionApi([new Error('Rate limited')]);
+    await completion(model, 'Hello', { tracer }).catch(() => undefined);
+
+    expect(tracer.spans.map((s) => s.errors.length)).toEqual([1, 1]);
+    expect(tracer.spans.every((s) => s.ended)).toBe(true);
+  });
+
+  it('Should emit a span per runTools call with a child span per tool request', async () => {
+    const tracer = new MemoryTracer();
+    const model = new MockCompletionApi([
+      { name: 'lookup', arguments: { query: 'Acme' } },
+      'Acme has 3 employees',
+    ]);
+    await runTools(model, [{ role: 'user', content: 'Tell me about Acme' }], {
+      tools: {
+        lookup: {
+          schema: z.object({ query: z.string() }),
+          execute: () => 'Acme has 3 employees',
+        },
+      },
+      tracer,
+    });
+
+    const [toolsSpan, ...requestSpans] = tracer.spans;
+    expect(toolsSpan).toEqual(
+      expect.objectContaining({
+        name: 'zod-gpt.tools',
+        ended: true,
+        attributes: expect.objectContaining({ 'zod_gpt.steps': 1 }),
+      }),
+    );
+    expect(requestSpans.map((s) => s.name)).toEqual([
+      'zod-gpt.request',
+      'zod-gpt.request',
+    ]);
+    expect(requestSpans.map((s) => s.parent)).toEqual([toolsSpan, toolsSpan]);
+  });
+
+  it('Should start child spans in the context of their parent with OpenTelemetry', () => {
+    const otelSpan = {
+      setAttributes: jest.fn(),
+      recordException: jest.fn(),
+      setStatus: jest.fn(),
+      end: jest.fn(),
+    };
+    const otelTracer = { startSpan: jest.fn(() => otelSpan) };
+    const api = {
+      trace: { setSpan: jest.fn((ctx, span) => ({ ctx, span })) },
+      context: { active: () => 'active' },
+    };
+    const tracer = createOpenTelemetryTracer(otelTracer, api);
+
+    const parent = tracer.startSpan('parent', { model: undefined, n: 1 });
+    tracer.startSpan('child', {}, parent);
+    parent.recordException(new Error('failed'));
+
+    expect(otelTracer.startSpan).toHaveBeenNthCalledWith(
+      1,
+      'parent',
+      { attributes: { n: 1 } },
+      undefined,
+    );
+    expect(otelTracer.startSpan).toHaveBeenNthCalledWith(
+      2,
+      'child',
+      { attributes: {} },
+      { ctx: 'active', span: otelSpan },
+    );
+    expect(otelSpan.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: 'failed',
+    });
+  });
+});
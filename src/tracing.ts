@@ -0,0 +1,90 @@
+export type SpanAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+export interface TraceSpan {
+  setAttributes(attributes: SpanAttributes): void;
+  recordException(error: unknown): void;
+  end(): void;
+}
+
+// implement this interface to send spans to your tracing backend, see `createOpenTelemetryTracer` for OpenTelemetry
+export interface Tracer {
+  // spans without a parent should be started as a child of the active span of the tracing backend
+  startSpan(
+    name: string,
+    attributes?: SpanAttributes,
+    parent?: TraceSpan,
+  ): TraceSpan;
+}
+
+// subset of the @opentelemetry/api types used by the adapter, so it works without depending on the package
+type OpenTelemetrySpan = {
+  setAttributes(attributes: Record<string, string | number | boolean>): unknown;
+  recordException(exception: Error | string): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+};
+
+type OpenTelemetryTracer = {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, string | number | boolean> },
+    context?: any,
+  ): OpenTelemetrySpan;
+};
+
+type OpenTelemetryApi = {
+  trace: { setSpan(context: any, span: any): any };
+  context: { active(): any };
+};
+
+// SpanStatusCode.ERROR in @opentelemetry/api
+const OpenTelemetryErrorStatus = 2;
+
+function omitUndefined(
+  attributes: SpanAttributes = {},
+): Record<string, string | number | boolean> {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined),
+  ) as Record<string, string | number | boolean>;
+}
+
+// adapt an OpenTelemetry tracer, pass in the `@opentelemetry/api` module so child spans are started in the context of their parent
+export function createOpenTelemetryTracer(
+  tracer: OpenTelemetryTracer,
+  api: OpenTelemetryApi,
+): Tracer {
+  const spans = new WeakMap<TraceSpan, OpenTelemetrySpan>();
+
+  return {
+    startSpan(name, attributes, parent) {
+      const parentSpan = parent && spans.get(parent);
+      const otelSpan = tracer.startSpan(
+        name,
+        { attributes: omitUndefined(attributes) },
+        parentSpan
+          ? api.trace.setSpan(api.context.active(), parentSpan)
+          : undefined,
+      );
+
+      const span: TraceSpan = {
+        setAttributes: (attributes) =>
+          otelSpan.setAttributes(omitUndefined(attributes)),
+        recordException: (error) => {
+          otelSpan.recordException(
+            error instanceof Error ? error : String(error),
+          );
+          otelSpan.setStatus({
+            code: OpenTelemetryErrorStatus,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        },
+        end: () => otelSpan.end(),
+      };
+      spans.set(span, otelSpan);
+      return span;
+    },
+  };
+}
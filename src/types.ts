@@ -1,6 +1,206 @@
-import { ModelRequestOptions, ChatResponse, ChatRequestMessage } from 'llm-api';
+import {
+  ModelRequestOptions,
+  ChatResponse,
+  ChatRequestMessage,
+  CompletionApi,
+} from 'llm-api';
+import type { JsonValue } from 'type-fest';
 import { z } from 'zod';
 
+import type { CacheStore } from './cache';
+import type { ModelCapabilities } from './capabilities';
+import type { Tracer } from './tracing';
+import type { PricingTable, RequestKind, UsageReport } from './usage';
+
+// image as a buffer, a file path, a data url or an http url
+export type ImageAttachment = {
+  type: 'image';
+  image: Buffer | string;
+
+  // detected from the data if not set
+  mimeType?: string;
+
+  // resolution the model looks at the image in, lower detail uses less tokens
+  // default: auto
+  detail?: 'low' | 'high' | 'auto';
+};
+
+// document, such as a pdf, as a buffer, a file path, a data url or an http url
+export type FileAttachment = {
+  type: 'file';
+  file: Buffer | string;
+
+  // detected from the data if not set
+  mimeType?: string;
+
+  // file name shown to the model
+  name?: string;
+};
+
+export type Attachment = ImageAttachment | FileAttachment;
+
+// part of a multimodal prompt, text parts are joined into the content of the message and everything else is attached to it
+export type ContentPart = { type: 'text'; text: string } | Attachment;
+
+// chat message with images or files attached, attachments are only sent to models with the vision capability
+export type ChatMessage = ChatRequestMessage & {
+  attachments?: Attachment[];
+};
+
+// record of a model response that failed schema validation
+export type HealAttempt = {
+  // raw text content of the response
+  content?: string;
+
+  // raw function call arguments of the response, if the model called the function
+  arguments?: JsonValue;
+
+  // json extracted from the response, undefined if nothing could be parsed
+  json?: any;
+
+  // issues found when validating the json against the schema
+  issues: z.ZodIssue[];
+};
+
+// end: trim the end of the last message
+// start: trim the start of the last message
+// middle: trim the middle of the last message, keeping the instructions at the start and the question at the end
+// history: drop the oldest messages in the history first, then trim the middle of the last message
+// summarize: replace the history with a summary written by the model, then trim the middle of the last message
+export type AutoSliceStrategy =
+  | 'end'
+  | 'start'
+  | 'middle'
+  | 'history'
+  | 'summarize';
+
+// record of what was removed from the prompt to make it fit
+export type SliceReport = {
+  strategy: AutoSliceStrategy;
+
+  // number of tokens the prompt was over the context size
+  overflowTokens: number;
+
+  // messages that were dropped from the history, or replaced by the summary
+  removedMessages: ChatRequestMessage[];
+
+  // text that was trimmed from the last message
+  removedText: string;
+
+  // summary that replaced the removed messages, only set by the summarize strategy
+  summary?: string;
+};
+
+// function: force the model to call a function with the schema as parameters
+// json_prompt: send the schema in the system message, and prefill the response with the start of a json code block if the model supports it
+// json_mode: send the schema in the system message, and constrain the model to output valid json
+// strict_schema: constrain the model to output json that follows a strict version of the schema
+export type OutputStrategy =
+  | 'function'
+  | 'json_prompt'
+  | 'json_mode'
+  | 'strict_schema';
+
+// json_schema: compact json schema
+// annotated_json_schema: indented json schema, including the description of the root schema
+// typescript: typescript type, with descriptions as comments
+export type SchemaFormat =
+  | 'json_schema'
+  | 'annotated_json_schema'
+  | 'typescript';
+
+// json output format the model is constrained to, sent as the `responseFormat` request option for the json_mode and strict_schema strategies
+export type ResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name: string; schema: any; strict: true };
+
+// request options sent to the model, custom models should read `responseFormat` to support json mode or strict schemas
+export type ModelRequestOptionsWithFormat = ModelRequestOptions & {
+  responseFormat?: ResponseFormat;
+};
+
+// few shot example of the output for a specific prompt
+export type PromptExampleTurn<T extends z.ZodType> = {
+  prompt: string;
+  output: z.infer<T>;
+};
+
+// record of a tool call that was executed by `runTools`
+export type ToolCallStep = {
+  toolCallId?: string;
+
+  // name of the tool that was called
+  name: string;
+
+  // arguments of the call, after validation
+  arguments: any;
+
+  // value returned by the tool
+  result: unknown;
+};
+
+// issue found by a custom validation, either a message or a message at a path of the data
+export type ValidationIssue =
+  | string
+  | { path?: (string | number)[]; message: string };
+
+export type AutoHealOptions = {
+  // maximum number of repair rounds to send to the model before giving up
+  // default: 1
+  maxAttempts?: number;
+
+  // called with every failed attempt, right before the repair message is sent
+  onAttempt?: (attempt: HealAttempt, attemptNumber: number) => void;
+};
+
+export type RequestEvent = {
+  // messages sent to the model
+  messages: ChatRequestMessage[];
+
+  // why the request was sent
+  kind: RequestKind;
+};
+
+export type ResponseEvent = RequestEvent & {
+  // raw response from the model
+  response: ChatResponse;
+
+  // time in ms between sending the request and receiving the response
+  latency: number;
+};
+
+export type FallbackEvent = {
+  // error thrown by the model that failed
+  error: unknown;
+
+  // model that failed
+  model: CompletionApi;
+
+  // model the request is sent to next
+  next: CompletionApi;
+};
+
+// hooks called during the lifecycle of a `chat` call
+export type CompletionHooks = {
+  // called right before every request to the model, including auto heal rounds
+  onRequest?: (event: RequestEvent) => void;
+
+  // called with every raw response from the model, before it is validated
+  onResponse?: (event: ResponseEvent) => void;
+
+  // called with every response that failed validation, right before the repair message is sent
+  onHealAttempt?: (attempt: HealAttempt, attemptNumber: number) => void;
+
+  // called every time the prompt is auto sliced
+  onSlice?: (report: SliceReport) => void;
+
+  // called when a model of a fallback chain fails, right before the request is sent to the next model
+  onFallback?: (event: FallbackEvent) => void;
+
+  // called when the call fails, right before the error is thrown
+  onError?: (error: unknown) => void;
+};
+
 // don't expost the functions array to the request layer
 export type RequestOptions<T extends z.ZodType> = Omit<
   ModelRequestOptions,
@@ -13,17 +213,56 @@ export type RequestOptions<T extends z.ZodType> = Omit<
   functionName?: string;
   functionDescription?: string;
 
-  // set to enable automatically slicing the prompt on token overflow. prompt will be sliced starting from the last character
+  // set to enable automatically slicing the prompt on token overflow, pass in a strategy to choose which part of the prompt is sliced
+  // `true` is the same as 'end', which slices the prompt starting from the last character
   // default: false
-  autoSlice?: boolean;
+  autoSlice?: boolean | AutoSliceStrategy;
 
-  // attempt to auto heal the output via reflection
+  // attempt to auto heal the output via reflection, pass in an object to configure the number of repair rounds
   // default: true
-  autoHeal?: boolean;
+  autoHeal?: boolean | AutoHealOptions;
+
+  // choose how structured outputs are requested from the model
+  // default: strict_schema, function, json_mode or json_prompt, whichever is the first one that the model is capable of
+  strategy?: OutputStrategy;
+
+  // choose how the schema is rendered in the system message, for strategies that send the schema in the system message
+  // default: json_schema
+  schemaFormat?: SchemaFormat;
+
+  // named schemas that are rendered once and referenced with `$ref`, needed for recursive schemas built with `z.lazy`
+  definitions?: Record<string, z.ZodType>;
+
+  // example outputs, sent before the messages as few shot turns in the format of the output strategy
+  examples?: z.infer<T>[];
+
+  // example outputs for specific prompts, sent after `examples` as pairs of the prompt and the output in the format of the output strategy
+  promptExamples?: PromptExampleTurn<T>[];
+
+  // override the capabilities of the model for this request, which decide how structured outputs are requested
+  capabilities?: Partial<ModelCapabilities>;
+
+  // run business checks on data that passed the schema, return issues to send them to the model in the auto heal message
+  validate?: (
+    data: z.infer<T>,
+  ) => ValidationIssue[] | void | Promise<ValidationIssue[] | void>;
 
   // set message history, useful if you want to continue an existing conversation
   messageHistory?: ChatRequestMessage[];
-};
+
+  // set to cache validated responses, identical requests will be served from the cache instead of the model
+  cache?: CacheStore;
+
+  // set to calculate the cost of every request in the usage report
+  pricing?: PricingTable;
+
+  // set to emit a span for every `chat` call, with a child span for every request to the model
+  tracer?: Tracer;
+
+  // decide which errors fall back to the next model, when a list of models or a router is passed in
+  // default: `isFallbackError`, which falls back on provider errors, timeouts, `TokenError`, `AutoSliceError` and `AutoHealError`
+  shouldFallback?: (error: unknown, model: CompletionApi) => boolean;
+} & CompletionHooks;
 
 export type Response<T extends z.ZodType> = {
   // override previous respond method to include schema types
@@ -34,4 +273,20 @@ export type Response<T extends z.ZodType> = {
 
   // parsed and typecasted data from the model
   data: z.infer<T>;
+
+  // json the data was parsed from, before any transforms of the schema ran, not set without a schema
+  json?: unknown;
+
+  // set if the response was served from the cache
+  cached?: boolean;
+
+  // usage of every request sent to the model to produce this response, including auto heal rounds and previous `respond` rounds
+  // `usage` only contains the usage of the last request
+  usageReport: UsageReport;
+
+  // set if the prompt was auto sliced, with one report for every time it was sliced
+  slices?: SliceReport[];
+
+  // model that produced the data, `respond` keeps sending requests to this model
+  model: CompletionApi;
 } & ChatResponse;
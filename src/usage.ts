@@ -0,0 +1,108 @@
+import type { ChatResponse, CompletionApi } from 'llm-api';
+import type { z } from 'zod';
+
+import type { Response } from './types';
+
+export type TokenUsage = NonNullable<ChatResponse['usage']>;
+
+// price in USD per 1 million tokens
+export type ModelPricing = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+// pricing of every model, keyed by the `model` set in the model config
+export type PricingTable = Record<string, ModelPricing>;
+
+// request: the first request of a `chat` call
+// heal: an auto heal round
+// summarize: a request to summarize the history, sent by the summarize auto slice strategy
+export type RequestKind = 'request' | 'heal' | 'summarize';
+
+export type RequestUsage = {
+  kind: RequestKind;
+
+  // model that the request was sent to
+  model?: string;
+
+  // usage reported by the model, undefined if the model did not report usage
+  usage?: TokenUsage;
+
+  // cost in USD, undefined if the model is not in the pricing table
+  cost?: number;
+};
+
+export type UsageReport = {
+  // usage of all requests combined
+  total: TokenUsage;
+
+  // cost of all priced requests combined, undefined if no request was priced
+  cost?: number;
+
+  // usage of every request, in the order they were sent
+  requests: RequestUsage[];
+};
+
+export function calculateCost(
+  usage: TokenUsage,
+  pricing: ModelPricing,
+): number {
+  return (
+    (usage.promptTokens * pricing.promptTokens +
+      usage.completionTokens * pricing.completionTokens) /
+    1_000_000
+  );
+}
+
+export function getRequestUsage(
+  model: CompletionApi,
+  kind: RequestKind,
+  usage: ChatResponse['usage'],
+  pricing?: PricingTable,
+): RequestUsage {
+  const name = model.modelConfig.model;
+  const modelPricing = name ? pricing?.[name] : undefined;
+  return {
+    kind,
+    model: name,
+    usage,
+    cost:
+      usage && modelPricing ? calculateCost(usage, modelPricing) : undefined,
+  };
+}
+
+export function createUsageReport(requests: RequestUsage[]): UsageReport {
+  const priced = requests.filter((r) => r.cost !== undefined);
+  return {
+    total: requests.reduce(
+      (total, r) => ({
+        promptTokens: total.promptTokens + (r.usage?.promptTokens ?? 0),
+        completionTokens:
+          total.completionTokens + (r.usage?.completionTokens ?? 0),
+        totalTokens: total.totalTokens + (r.usage?.totalTokens ?? 0),
+      }),
+      { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    ),
+    cost:
+      priced.length > 0
+        ? priced.reduce((total, r) => total + (r.cost ?? 0), 0)
+        : undefined,
+    requests,
+  };
+}
+
+// add the usage of previous rounds to the response, and keep adding it to every following `respond` round
+export function chainUsage<T extends z.ZodType>(
+  previous: UsageReport,
+  response: Response<T>,
+): Response<T> {
+  return {
+    ...response,
+    usageReport: createUsageReport([
+      ...previous.requests,
+      ...response.usageReport.requests,
+    ]),
+    respond: async (message, opt) =>
+      chainUsage(previous, await response.respond(message, opt)),
+  };
+}
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { debug as mDebug } from 'debug';
 import jsonic from 'jsonic';
 import { jsonrepair } from 'jsonrepair';
@@ -57,16 +58,103 @@ export function parseUnsafeJson(json: string): any {
   }
 }
 
-export function zodToJsonSchema(schema: z.ZodType): any {
+// parse json that is still being streamed in, closing any open strings, arrays and objects
+export function parsePartialJson(json: string): any {
+  const start = json.search(/[[{]/);
+  if (start < 0) {
+    return undefined;
+  }
+
+  try {
+    // drop the closing markdown fence if the model already sent it
+    const partial = json.slice(start).replace(/```(.|\n)*$/, '');
+    return jsonic(jsonrepair(partial));
+  } catch {
+    return undefined;
+  }
+}
+
+// named definitions are kept and referenced with `$ref`, every other schema is inlined
+export function zodToJsonSchema(
+  schema: z.ZodType,
+  definitions?: Record<string, z.ZodType>,
+): any {
+  const jsonSchema: any = definitions
+    ? zodToJsonSchemaImpl(schema, { $refStrategy: 'root', definitions })
+    : zodToJsonSchemaImpl(schema, { $refStrategy: 'none' });
+
+  // when the root schema is one of the definitions, it is returned as a reference, inline the definition so the root keeps its properties
+  const rootRef =
+    typeof jsonSchema.$ref === 'string' &&
+    jsonSchema.$ref.startsWith('#/definitions/')
+      ? jsonSchema.$ref.slice('#/definitions/'.length)
+      : undefined;
+  const root = rootRef
+    ? { ...jsonSchema.definitions?.[rootRef], ...jsonSchema }
+    : jsonSchema;
+
   return omit(
-    zodToJsonSchemaImpl(schema, { $refStrategy: 'none' }),
+    root,
     '$ref',
     '$schema',
     'default',
-    'definitions',
+    ...(definitions ? [] : ['definitions']),
     'description',
     'markdownDescription',
   );
 }
 
+// serialize json with sorted object keys, so the same value always produces the same string
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => stableStringify(v ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => (value as any)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`,
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashJson(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+// map over items with at most `concurrency` calls in flight, results are returned in the same order as the items
+// no new calls are started after a call failed, calls that are already in flight are not cancelled
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker,
+    ),
+  );
+  return results;
+}
+
 export type MaybePromise<T> = Promise<T> | T;